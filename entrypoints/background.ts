@@ -1,22 +1,111 @@
-import { CurrentMediaPayload, ExtensionMessage, MediaChangedPayload, MediaControlCapabilities, PopoutMessage, PopoutStatePaylaod as PopoutStatePayload, PopupMessage, RuntimeMessage, TabMessage, WindowSizePayload } from "@/lib/messages";
+import { CurrentMediaPayload, ExtensionMessage, GetMediaHistoryPayload, MediaChangedPayload, MediaControlCapabilities, MediaControlResponse, MediaHistoryPayload, MediaInteractedPayload, PinMediaPayload, PopoutMessage, PopoutStatePaylaod as PopoutStatePayload, PopupMessage, RuntimeMessage, SeekPositionPayload, TabMediaSource, TabMessage, WindowSizePayload } from "@/lib/messages";
+import { Badge } from "@/lib/badge";
+import { BridgeConnector } from "@/lib/bridge/connector";
+import { KeyboardCommand, selectCommandTarget } from "@/lib/commands";
+import { ExclusivePlayback, ExclusivePlaybackAction, ExclusivePlaybackOptions } from "@/lib/exclusive-playback";
+import { NativeMessagingTransport } from "@/lib/bridge/native";
+import { BridgeSessionOptions } from "@/lib/bridge/session";
+import { WebSocketTransport } from "@/lib/bridge/websocket";
 import { BrowserMedia, Proto } from "@/lib/proto";
+import { ScrobbleQueue } from "@/lib/scrobble/queue";
+import { Scrobbler } from "@/lib/scrobble/scrobbler";
+import { HttpSink, IScrobbleSink, LocalLogSink } from "@/lib/scrobble/sinks";
+import { MediaHistory } from "@/lib/tab-media/history";
 import { PlaybackState } from "@/lib/tab-media/playback-state";
+import { PlaybackStateSource } from "@/lib/tab-media/playback-state-source";
+import { getCurrentBrowser } from "@/lib/util/browser";
 import { ReverseDomain } from "@/lib/util/reverse-domain";
+import { artworkEmbeddingRequested, badgeMode, commandTargetPolicy, exclusivePlaybackAllowlist, exclusivePlaybackEnabled, exclusivePlaybackResume, PersistedTabFrame, persistedPinnedMediaId, persistedPopoutWindowId, persistedTabFrames, scrobbleHttpEndpoint, scrobbleLogEnabled, webSocketBridgeFormat, webSocketBridgePort } from "@/lib/util/storage";
 
 type TabId = number;
 type FrameId = number;
-const tabFrames: Map<FrameId, Map<TabId, {
+type MediaKey = string;
+interface FrameMedia {
   reverseDomain: string
+  // Identifies the media in this frame until the frame navigates.
+  mediaId: string
   state: BrowserMedia.MediaState | null
   // FIXME Group this under "clientState" or a similar field.
   controls: MediaControlCapabilities
   metadataButtons: Set<string>
-} | null>> = new Map();
+  playbackStateSource: PlaybackStateSource
+}
+// The media of each frame, the primary media of a frame first.
+const tabFrames: Map<TabId, Map<FrameId, Map<MediaKey, FrameMedia>>> = new Map();
+
+// Recently played tracks, across all tabs and for each tab.
+const mediaHistory = new MediaHistory();
+
+// Delivers scrobbles to the sinks that are enabled in the settings.
+const scrobbleQueue = new ScrobbleQueue(async () => {
+  const sinks: IScrobbleSink[] = [];
+  if (await scrobbleLogEnabled.getValue()) {
+    sinks.push(new LocalLogSink());
+  }
+  const endpoint = await scrobbleHttpEndpoint.getValue();
+  if (endpoint !== null) {
+    sinks.push(new HttpSink(endpoint));
+  }
+  return sinks;
+});
+const scrobbler = new Scrobbler(scrobbleQueue);
+
+// Kept in memory, since media updates must be processed in order.
+const exclusivePlaybackOptions: ExclusivePlaybackOptions = {
+  enabled: false,
+  allowlist: [],
+  resume: false,
+};
 
+// Pauses other media through the same path as the popup.
+const exclusivePlayback = new ExclusivePlayback((mediaId, action) => {
+  const source = findMediaSource(mediaId);
+  if (source === null) {
+    return;
+  }
+  browser.tabs.sendMessage(source.tabId, {
+    type: action === ExclusivePlaybackAction.Pause
+      ? PopupMessage.PauseMedia
+      : PopupMessage.PlayMedia,
+    mediaKey: source.mediaKey,
+    automatic: true,
+  } as RuntimeMessage, {
+    frameId: source.frameId,
+  }).catch(e => {
+    console.warn("Failed to control media for exclusive playback", e);
+  });
+});
+
+// Not persisted, since ports are disconnected when the background script
+// is suspended and popups reconnect when that happens.
 let connectedPopups = 0;
 
+const badge = new Badge();
+
 let popoutWindowId: number | undefined = undefined;
 
+// The media that was controlled most recently and the media that is pinned,
+// which keyboard commands control, depending on the command target policy.
+let lastInteractedMediaId: string | null = null;
+let pinnedMediaId: string | null = null;
+
+// How far the seek keyboard commands seek, in seconds.
+const COMMAND_SEEK_OFFSET = 10;
+
+// Resolves once the state from before the background script was suspended
+// has been restored. Events must not be handled before that.
+let stateRestored: Promise<void> = Promise.resolve();
+let persistStateTimeout: NodeJS.Timeout | null = null;
+
+// How long to wait for further changes before persisting the state.
+const PERSIST_STATE_DELAY = 100;
+
+// The name of the native messaging host of the desktop application.
+const NATIVE_MESSAGING_HOST = "app.musicpresence.browsermedia";
+
+// Connections to applications that media updates are streamed to.
+const bridges: BridgeConnector[] = [];
+
 function tabMediaStateToString(state: Proto.BrowserMedia.MediaState): string {
   const playbackState = state.playbackState ?
     new PlaybackState(
@@ -34,40 +123,128 @@ function tabMediaStateToString(state: Proto.BrowserMedia.MediaState): string {
     + "]";
 }
 
+function currentMediaStates(): BrowserMedia.MediaState[] {
+  const states: BrowserMedia.MediaState[] = [];
+  for (const frames of tabFrames.values()) {
+    for (const frameMedia of frames.values()) {
+      for (const media of frameMedia.values()) {
+        if (media.state) {
+          states.push(media.state);
+        }
+      }
+    }
+  }
+  return states;
+}
+
+function findMediaSource(mediaId: string): TabMediaSource | null {
+  for (const [tabId, frames] of tabFrames) {
+    for (const [frameId, frameMedia] of frames) {
+      for (const [mediaKey, media] of frameMedia) {
+        if (media.state?.id === mediaId) {
+          return { tabId, frameId, mediaKey };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function mediaCommandToMessage(
+  command: BrowserMedia.MediaCommand,
+): RuntimeMessage | null {
+  switch (command.action) {
+    case BrowserMedia.MediaCommand_Action.PLAY:
+      return { type: PopupMessage.PlayMedia };
+    case BrowserMedia.MediaCommand_Action.PAUSE:
+      return { type: PopupMessage.PauseMedia };
+    case BrowserMedia.MediaCommand_Action.SEEK_START:
+      return { type: PopupMessage.RewindToStart };
+    case BrowserMedia.MediaCommand_Action.PREVIOUS_TRACK:
+      return { type: PopupMessage.PreviousTrack };
+    case BrowserMedia.MediaCommand_Action.SEEK_POSITION:
+      if (command.position === undefined) {
+        return null;
+      }
+      return {
+        type: PopupMessage.SeekPosition,
+        payload: {
+          position: command.position
+        } as SeekPositionPayload
+      };
+    case BrowserMedia.MediaCommand_Action.NEXT_TRACK:
+      return { type: PopupMessage.NextTrack };
+    default:
+      return null;
+  }
+}
+
+// Routes a media command from a connected application to the content script
+// of the frame that is playing the media. The content script uses the same
+// controls as the popup, which prefer the page's media session action handlers.
+async function executeMediaCommand(
+  command: BrowserMedia.MediaCommand,
+): Promise<BrowserMedia.MediaCommandResult> {
+  const result: BrowserMedia.MediaCommandResult = {
+    commandId: command.commandId,
+    ok: false,
+    handledByPage: false,
+  };
+  const source = findMediaSource(command.mediaId);
+  if (source === null) {
+    console.warn("There is no media to execute the command for", command);
+    return result;
+  }
+  const message = mediaCommandToMessage(command);
+  if (message === null) {
+    console.error("Invalid media command", command);
+    return result;
+  }
+  message.mediaKey = source.mediaKey;
+  const response: MediaControlResponse | undefined =
+    await browser.tabs.sendMessage(source.tabId, message, {
+      frameId: source.frameId,
+    });
+  if (response) {
+    result.ok = response.ok;
+    result.handledByPage = response.handledByPage;
+  }
+  return result;
+}
+
 async function updateTabMedia() {
   let hasExtensionPopup: boolean = connectedPopups > 0
 
-  // Count how many tabs are playing media and collect the metadata, if there
-  // is any extension popup that could display that data.
-  let currentMediaCount: number = 0
-  const currentMediaPayload: CurrentMediaPayload = { media: [] }
+  // Collect all media and the metadata, if there is any extension popup
+  // that could display that data.
+  const currentMedia: BrowserMedia.MediaState[] = []
+  const currentMediaPayload: CurrentMediaPayload = { media: [], pinnedMediaId }
   for (const [tabId, frames] of tabFrames) {
-    for (const [frameId, media] of frames) {
-      if (media?.state) {
-        currentMediaCount += 1;
-        if (hasExtensionPopup) {
-          currentMediaPayload.media.push({
-            source: { tabId, frameId },
-            stateJson: BrowserMedia.MediaState.toJSON(media.state) as object,
-            controls: media.controls,
-            metadataButtons: media.metadataButtons,
-          });
+    for (const [frameId, frameMedia] of frames) {
+      for (const [mediaKey, media] of frameMedia) {
+        if (media.state) {
+          currentMedia.push(media.state);
+          if (hasExtensionPopup) {
+            currentMediaPayload.media.push({
+              source: { tabId, frameId, mediaKey },
+              mediaId: media.mediaId,
+              stateJson: BrowserMedia.MediaState.toJSON(media.state) as object,
+              controls: media.controls,
+              metadataButtons: media.metadataButtons,
+            });
+          }
         }
       }
     }
   }
 
-  // // Update the counter value on the extension icon.
-  // const browserAction = browser.action ?? browser.browserAction;
-  // if (currentMediaCount > 0) {
-  //   const text = currentMediaCount > 9 ? '9+' : String(currentMediaCount);
-  //   browserAction.setBadgeBackgroundColor({ color: '#222' });
-  //   browserAction.setBadgeText({ text });
-  // } else {
-  //   browserAction.setBadgeText({
-  //     text: undefined,
-  //   });
-  // }
+  // Update the badge and the tooltip of the extension icon.
+  badge.update(currentMedia, await badgeMode.getValue());
+
+  // Stream the media to connected applications, if they are subscribed.
+  for (const bridge of bridges) {
+    bridge.session?.publish(currentMedia);
+  }
 
   // Update the extension popup, if there is any.
   if (hasExtensionPopup) {
@@ -78,76 +255,132 @@ async function updateTabMedia() {
   }
 }
 
-async function handleTabMedia(
+interface FrameMediaUpdate {
+  key: MediaKey
+  state: Proto.BrowserMedia.MediaState
+  // FIXME Group this under "clientState" or a similar value.
+  controls: MediaControlCapabilities
+  metadataButtons: Set<string>
+  playbackStateSource: PlaybackStateSource
+}
+
+// Media updates are processed one after another, since processing awaits
+// the tab and a later update must neither be overtaken by an earlier one
+// nor miss the media IDs that the earlier one assigned.
+let frameMediaUpdates: Promise<void> = Promise.resolve();
+
+/**
+ * Replaces the media of a frame with the given media, primary media first.
+ * Media that is not reported anymore is removed.
+ * Resolves once this and all previous updates have been processed.
+ */
+function handleFrameMedia(
   tabId: number,
   frameId: number,
-  state: Proto.BrowserMedia.MediaState | null,
-  // FIXME Group this under "clientState" or a similar value.
-  controls: MediaControlCapabilities | null = null,
-  metadataButtons: Set<string> = new Set<string>(),
+  updates: FrameMediaUpdate[],
+): Promise<void> {
+  const result = frameMediaUpdates.then(() =>
+    updateFrameMedia(tabId, frameId, updates));
+  frameMediaUpdates = result.catch(e => {
+    console.error("Failed to handle media of frame", tabId, frameId, e);
+  });
+  return frameMediaUpdates;
+}
+
+async function updateFrameMedia(
+  tabId: number,
+  frameId: number,
+  updates: FrameMediaUpdate[],
 ) {
   if (!tabFrames.has(tabId)) {
     tabFrames.set(tabId, new Map());
   }
   const frames = tabFrames.get(tabId)!;
-  if (!frames.has(frameId)) {
-    frames.set(frameId, null);
+  const previousMedia = frames.get(frameId) ?? new Map<MediaKey, FrameMedia>();
+  if (updates.length === 0 && [...previousMedia.values()].every(media => media.state === null)) {
+    frames.set(frameId, previousMedia);
+    return; // Nothing has changed
   }
-  let currentState = frames.get(frameId);
-  if (currentState === undefined) {
-    console.assert(false, "There is no previous state");
-    return;
-  }
-  if (state === null) {
-    if (currentState === null) {
-      return; // Nothing has changed
-    }
-    // Don't overwrite the reverse domain for the tab
-    currentState.state = null;
-  }
-  else if (controls === null) {
-    console.error("State and controls must both be non-null")
-    return;
+  const [previousPrimaryKey, previousPrimary] = previousMedia.entries().next().value
+    ?? [undefined, undefined];
+  let tab: Browser.tabs.Tab | undefined = undefined;
+  if (updates.length > 0) {
+    try {
+      tab = await browser.tabs.get(tabId);
+    } catch {}
   }
-  else {
+  const currentMedia = new Map<MediaKey, FrameMedia>();
+  for (const [index, update] of updates.entries()) {
+    const state = update.state;
     if (state.source === undefined) {
       console.assert(false, "There is no source for the media state");
-      return;
+      continue;
     }
     // FIXME We don't actually need all the favicon detection code in the
     // content script, the background script can get it reliably with the
     // "Browser.tabs.Tab.favIconUrl" property.
     // FIXME Don't patch the state in this way.
-    try {
-      const tab = await browser.tabs.get(tabId);
-      if (tab.url) {
-        state.source.siteUrl = tab.url
-        state.source.reverseDomain = ReverseDomain.forUrl(tab.url);
-      }
-      if (tab.favIconUrl) {
-        state.source.faviconUrl = tab.favIconUrl;
-      }
-    } catch {}
-    currentState = {
+    if (tab?.url) {
+      state.source.siteUrl = tab.url
+      state.source.reverseDomain = ReverseDomain.forUrl(tab.url);
+    }
+    if (tab?.favIconUrl) {
+      state.source.faviconUrl = tab.favIconUrl;
+    }
+    // Keep the media ID for as long as the media is reported for this frame,
+    // so that it survives track changes and media briefly disappearing.
+    // The primary media keeps its ID when it moves to a different key,
+    // e.g. once the page starts playing the media it announced beforehand.
+    let mediaId = previousMedia.get(update.key)?.mediaId;
+    if (mediaId === undefined && index === 0 && previousPrimary !== undefined &&
+      !updates.some(other => other.key === previousPrimaryKey)) {
+      mediaId = previousPrimary.mediaId;
+    }
+    mediaId ??= crypto.randomUUID();
+    state.id = mediaId;
+    currentMedia.set(update.key, {
       reverseDomain: state.source.reverseDomain,
-      state: state,
-      controls,
-      metadataButtons,
-    };
+      mediaId,
+      state,
+      controls: update.controls,
+      metadataButtons: update.metadataButtons,
+      playbackStateSource: update.playbackStateSource,
+    });
+  }
+  const currentMediaIds = new Set([...currentMedia.values()].map(media => media.mediaId));
+  const removedMedia = [...previousMedia.values()].filter(media =>
+    media.state !== null && !currentMediaIds.has(media.mediaId));
+  if (currentMedia.size === 0 && previousPrimaryKey !== undefined) {
+    // Don't forget the media ID and the reverse domain for the frame.
+    currentMedia.set(previousPrimaryKey, { ...previousPrimary!, state: null });
+  }
+  frames.set(frameId, currentMedia);
+  persistState();
+  for (const media of currentMedia.values()) {
+    mediaHistory.update(tabId, media.mediaId, media.state);
+    scrobbler.update(media.mediaId, media.state, media.playbackStateSource);
+    exclusivePlayback.update(media.mediaId, media.state, exclusivePlaybackOptions);
+  }
+  for (const media of removedMedia) {
+    mediaHistory.update(tabId, media.mediaId, null);
+    scrobbler.update(media.mediaId, null, media.playbackStateSource);
+    exclusivePlayback.update(media.mediaId, null, exclusivePlaybackOptions);
   }
-  frames.set(frameId, currentState);
 
   // Inform open popup views about current media.
   updateTabMedia();
 
   // logging
   const ts = new Date(Date.now()).toISOString();
-  if (state) {
-    const encoded = JSON.stringify(Proto.BrowserMedia.MediaUpdate.toJSON({ media: [state] }));
-    console.log(ts, tabId, state.source?.reverseDomain, tabMediaStateToString(state), state, encoded);
-  }
-  else {
-    console.log(ts, tabId, currentState.reverseDomain, state);
+  for (const media of currentMedia.values()) {
+    const state = media.state;
+    if (state) {
+      const encoded = JSON.stringify(Proto.BrowserMedia.MediaUpdate.toJSON({ media: [state] }));
+      console.log(ts, tabId, state.source?.reverseDomain, tabMediaStateToString(state), state, encoded);
+    }
+    else {
+      console.log(ts, tabId, media.reverseDomain, state);
+    }
   }
 }
 
@@ -155,6 +388,7 @@ browser.runtime.onMessage.addListener(async (
   message: RuntimeMessage,
   sender: Browser.runtime.MessageSender,
 ) => {
+  await stateRestored;
   switch (message.type) {
     // Media changed in a tab
     case TabMessage.MediaChanged:
@@ -162,20 +396,55 @@ browser.runtime.onMessage.addListener(async (
       if (tabId) {
         const frameId = sender.frameId || 0;
         const mediaChangedPayload = message.payload as MediaChangedPayload;
-        handleTabMedia(
+        handleFrameMedia(
           tabId,
           frameId,
-          mediaChangedPayload.stateJson
-            ? BrowserMedia.MediaState.fromJSON(mediaChangedPayload.stateJson)
-            : null,
-          mediaChangedPayload.controls,
-          mediaChangedPayload.metadataButtons,
+          mediaChangedPayload.media.map(entry => ({
+            key: entry.key,
+            state: BrowserMedia.MediaState.fromJSON(entry.stateJson),
+            controls: entry.controls,
+            metadataButtons: entry.metadataButtons,
+            playbackStateSource: entry.playbackStateSource,
+          })),
         );
       }
       break;
+    // Media in a tab was controlled
+    case TabMessage.MediaInteracted:
+      if (sender.tab?.id) {
+        const mediaInteractedPayload = message.payload as MediaInteractedPayload;
+        const media = tabFrames.get(sender.tab.id)?.get(sender.frameId || 0)
+          ?.get(mediaInteractedPayload.mediaKey);
+        if (media) {
+          lastInteractedMediaId = media.mediaId;
+        }
+      }
+      break;
+    // The popup pins media for keyboard commands
+    case PopupMessage.PinMedia:
+      const pinMediaPayload = message.payload as PinMediaPayload;
+      pinnedMediaId = pinMediaPayload.mediaId;
+      persistState();
+      updateTabMedia();
+      break;
     // The popup requests currently playing media
     case PopupMessage.GetCurrentMedia:
       updateTabMedia();
+      // Make sure the popup does not display outdated playback positions.
+      requestMediaStates();
+      break;
+    // The popup requests recently played tracks
+    case PopupMessage.GetMediaHistory:
+      const getMediaHistoryPayload = message.payload as GetMediaHistoryPayload | undefined;
+      const historyTabId = getMediaHistoryPayload?.tabId;
+      browser.runtime.sendMessage({
+        type: ExtensionMessage.MediaHistory,
+        payload: {
+          tabId: historyTabId,
+          entriesJson: mediaHistory.entries(historyTabId).map(entry =>
+            BrowserMedia.MediaHistoryEntry.toJSON(entry) as object),
+        } as MediaHistoryPayload
+      } as RuntimeMessage)
       break;
     // The popout reports its desired window size
     case PopoutMessage.WindowSize:
@@ -210,16 +479,131 @@ browser.runtime.onMessage.addListener(async (
 });
 
 async function unregisterTab(tabId: number) {
+  await stateRestored;
   if (!tabFrames.has(tabId)) {
     return; // Not registered.
   }
   if (tabFrames.has(tabId)) {
     const frames = tabFrames.get(tabId)!;
-    for (const [frameId, media] of frames) {
-      handleTabMedia(tabId, frameId, null);
+    for (const frameId of frames.keys()) {
+      handleFrameMedia(tabId, frameId, []);
     }
   }
+  await frameMediaUpdates;
   tabFrames.delete(tabId);
+  persistState();
+}
+
+async function unregisterFrame(tabId: number, frameId: number) {
+  const frames = tabFrames.get(tabId);
+  if (!frames?.has(frameId)) {
+    return; // Not registered.
+  }
+  await handleFrameMedia(tabId, frameId, []);
+  // Forget the frame, so that a new document in it gets a new media ID.
+  frames.delete(frameId);
+  persistState();
+}
+
+/**
+ * Mirrors the state into session storage, so that it can be restored
+ * after the background script has been suspended.
+ * Multiple changes in short succession are persisted at once.
+ */
+function persistState() {
+  if (persistStateTimeout !== null) {
+    return;
+  }
+  persistStateTimeout = setTimeout(async () => {
+    persistStateTimeout = null;
+    const persistedFrames: PersistedTabFrame[] = [];
+    for (const [tabId, frames] of tabFrames) {
+      for (const [frameId, frameMedia] of frames) {
+        for (const [mediaKey, media] of frameMedia) {
+          persistedFrames.push({
+            tabId,
+            frameId,
+            mediaKey,
+            reverseDomain: media.reverseDomain,
+            mediaId: media.mediaId,
+            stateJson: media.state
+              ? BrowserMedia.MediaState.toJSON(media.state) as object
+              : null,
+            controls: media.controls,
+            metadataButtons: [...media.metadataButtons],
+            playbackStateSource: media.playbackStateSource,
+          });
+        }
+      }
+    }
+    try {
+      await persistedTabFrames.setValue(persistedFrames);
+      await persistedPopoutWindowId.setValue(popoutWindowId ?? null);
+      await persistedPinnedMediaId.setValue(pinnedMediaId);
+    } catch (e) {
+      console.error("Failed to persist the state", e);
+    }
+  }, PERSIST_STATE_DELAY);
+}
+
+/**
+ * Restores the state from before the background script was suspended
+ * and asks the content scripts of all restored frames to report their
+ * current state. Frames without a content script are removed.
+ */
+async function restoreState() {
+  let persistedFrames: PersistedTabFrame[];
+  try {
+    persistedFrames = await persistedTabFrames.getValue();
+    popoutWindowId = await persistedPopoutWindowId.getValue() ?? undefined;
+    pinnedMediaId = await persistedPinnedMediaId.getValue();
+    await scrobbler.restore();
+    await exclusivePlayback.restore();
+    await mediaHistory.restore();
+  } catch (e) {
+    console.error("Failed to restore the state", e);
+    return;
+  }
+  for (const frame of persistedFrames) {
+    if (!tabFrames.has(frame.tabId)) {
+      tabFrames.set(frame.tabId, new Map());
+    }
+    const frames = tabFrames.get(frame.tabId)!;
+    if (!frames.has(frame.frameId)) {
+      frames.set(frame.frameId, new Map());
+    }
+    frames.get(frame.frameId)!.set(frame.mediaKey, {
+      reverseDomain: frame.reverseDomain,
+      mediaId: frame.mediaId,
+      state: frame.stateJson
+        ? BrowserMedia.MediaState.fromJSON(frame.stateJson)
+        : null,
+      controls: frame.controls,
+      metadataButtons: new Set(frame.metadataButtons),
+      playbackStateSource: frame.playbackStateSource,
+    });
+  }
+  requestMediaStates();
+}
+
+/**
+ * Asks the content scripts of all known frames to report their full
+ * current state, even if it has not changed since they last reported it.
+ * Frames without a content script are removed.
+ */
+function requestMediaStates() {
+  for (const [tabId, frames] of tabFrames) {
+    for (const frameId of frames.keys()) {
+      browser.tabs.sendMessage(tabId, {
+        type: ExtensionMessage.ReportMediaState,
+      } as RuntimeMessage, {
+        frameId,
+      }).catch(() => {
+        // There is no content script in this frame anymore.
+        unregisterFrame(tabId, frameId);
+      });
+    }
+  }
 }
 
 browser.webNavigation.onCommitted.addListener((details) => {
@@ -233,6 +617,7 @@ browser.webNavigation.onCommitted.addListener((details) => {
 
 browser.tabs.onRemoved.addListener(async (tabId) => {
   unregisterTab(tabId);
+  mediaHistory.removeTab(tabId);
 });
 
 // NOTE This errors in Safari and causes the extension to not work.
@@ -241,7 +626,154 @@ browser.tabs.onRemoved.addListener(async (tabId) => {
 //   console.log('on suspend');
 // });
 
+async function handleCommand(command: string) {
+  await stateRestored;
+  const target = selectCommandTarget(currentMediaStates(),
+    await commandTargetPolicy.getValue(), lastInteractedMediaId, pinnedMediaId);
+  const source = target !== null ? findMediaSource(target.id) : null;
+  if (target === null || source === null) {
+    return; // There is no media to control.
+  }
+  let message: RuntimeMessage | null = null;
+  switch (command) {
+    case KeyboardCommand.TogglePlayPause:
+      message = {
+        type: target.playbackState?.playing
+          ? PopupMessage.PauseMedia
+          : PopupMessage.PlayMedia
+      };
+      break;
+    case KeyboardCommand.NextTrack:
+      message = { type: PopupMessage.NextTrack };
+      break;
+    case KeyboardCommand.PreviousTrack:
+      // Rewind instead, if the page has no notion of tracks.
+      message = {
+        type: target.capabilities?.previousTrack
+          ? PopupMessage.PreviousTrack
+          : PopupMessage.RewindToStart
+      };
+      break;
+    case KeyboardCommand.SeekForward:
+    case KeyboardCommand.SeekBackward: {
+      if (target.playbackState === undefined) {
+        return;
+      }
+      const duration = target.metadata?.duration;
+      const playbackState = new PlaybackState(
+        target.playbackState.position * 1000,
+        duration ? duration * 1000 : null,
+        target.playbackState.playing,
+        target.playbackState.positionTimestamp?.getTime()
+      );
+      const offset = command === KeyboardCommand.SeekForward
+        ? COMMAND_SEEK_OFFSET : -COMMAND_SEEK_OFFSET;
+      let position = Math.max(0, playbackState.livePosition() / 1000 + offset);
+      if (duration) {
+        position = Math.min(duration, position);
+      }
+      message = {
+        type: PopupMessage.SeekPosition,
+        payload: {
+          position
+        } as SeekPositionPayload
+      };
+      break;
+    }
+    case KeyboardCommand.FocusTab: {
+      const tab = await browser.tabs.update(source.tabId, { active: true });
+      if (tab?.windowId !== undefined) {
+        await browser.windows.update(tab.windowId, { focused: true });
+      }
+      return;
+    }
+    default:
+      console.warn("Unknown command", command);
+      return;
+  }
+  lastInteractedMediaId = target.id;
+  message.mediaKey = source.mediaKey;
+  browser.tabs.sendMessage(source.tabId, message, {
+    frameId: source.frameId,
+  }).catch(() => {
+    // There is no content script in this frame anymore.
+    unregisterFrame(source.tabId, source.frameId);
+  });
+}
+
+async function initExclusivePlaybackOptions() {
+  exclusivePlaybackEnabled.watch(value => exclusivePlaybackOptions.enabled = value);
+  exclusivePlaybackAllowlist.watch(value => exclusivePlaybackOptions.allowlist = value);
+  exclusivePlaybackResume.watch(value => exclusivePlaybackOptions.resume = value);
+  exclusivePlaybackOptions.enabled = await exclusivePlaybackEnabled.getValue();
+  exclusivePlaybackOptions.allowlist = await exclusivePlaybackAllowlist.getValue();
+  exclusivePlaybackOptions.resume = await exclusivePlaybackResume.getValue();
+}
+
+function initBridges() {
+  const sessionOptions: BridgeSessionOptions = {
+    browserType: getCurrentBrowser(),
+    currentMedia: currentMediaStates,
+    executeCommand: executeMediaCommand,
+    mediaHistory: () => mediaHistory.entries(),
+    requestMediaStates,
+    featuresChanged: updateArtworkEmbedding,
+  };
+  // Launching the native messaging host is comparatively expensive,
+  // so retry less often when it exited or could not be launched.
+  const nativeBridge = new BridgeConnector(async () => {
+    return new NativeMessagingTransport(NATIVE_MESSAGING_HOST);
+  }, sessionOptions, {
+    initialDelay: 5 * 1000,
+    maxDelay: 5 * 60 * 1000,
+  });
+  const webSocketBridge = new BridgeConnector(async () => {
+    const port = await webSocketBridgePort.getValue();
+    if (port === null) {
+      return null;
+    }
+    return new WebSocketTransport(
+      `ws://localhost:${port}`, await webSocketBridgeFormat.getValue());
+  }, sessionOptions, {
+    initialDelay: 1000,
+    maxDelay: 60 * 1000,
+  });
+  // Reconnect whenever the WebSocket endpoint is reconfigured.
+  webSocketBridgePort.watch(() => webSocketBridge.restart());
+  webSocketBridgeFormat.watch(() => webSocketBridge.restart());
+  bridges.push(nativeBridge, webSocketBridge);
+  for (const bridge of bridges) {
+    bridge.start();
+  }
+}
+
+/**
+ * Lets content scripts know whether any connected application wants
+ * embedded artwork, since resolving it is expensive and otherwise unused.
+ */
+function updateArtworkEmbedding() {
+  const requested = bridges.some(bridge =>
+    bridge.session?.hasFeature(BrowserMedia.Feature.EMBEDDED_ARTWORK) ?? false);
+  artworkEmbeddingRequested.setValue(requested).catch(e => {
+    console.error("Failed to update whether artwork is embedded", e);
+  });
+}
+
 async function init() {
+  stateRestored = restoreState();
+  // No application is connected yet.
+  updateArtworkEmbedding();
+  initBridges();
+
+  // Deliver scrobbles that were queued before the extension restarted.
+  scrobbleQueue.flush();
+
+  badgeMode.watch(() => updateTabMedia());
+
+  browser.commands.onCommand.addListener(handleCommand);
+
+  initExclusivePlaybackOptions();
+
   browser.runtime.onConnect.addListener(port => {
     switch (port.name) {
       // Observe and listen for popups that connect/disconnect i.e. open/close.
@@ -262,7 +794,7 @@ async function init() {
         const frameId = port.sender?.frameId;
         if (tabId && frameId) {
           port.onDisconnect.addListener(() => {
-            handleTabMedia(tabId, frameId, null);
+            unregisterFrame(tabId, frameId);
           });
         }
         break;
@@ -273,6 +805,7 @@ async function init() {
 
 function onPopoutOpened() {
   console.assert(popoutWindowId !== undefined)
+  persistState();
   browser.runtime.sendMessage({
     type: ExtensionMessage.PopoutOpened
   } as RuntimeMessage)
@@ -280,6 +813,7 @@ function onPopoutOpened() {
 
 function onPopoutClosed() {
   console.assert(popoutWindowId === undefined)
+  persistState();
   browser.runtime.sendMessage({
     type: ExtensionMessage.PopoutClosed
   } as RuntimeMessage)
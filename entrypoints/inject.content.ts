@@ -1,4 +1,4 @@
-import { ActionSeekToPayload, MediaSessionMessage, WindowMessage, WindowResponseMessage } from "@/lib/messages";
+import { ActionSeekOffsetPayload, ActionSeekToPayload, ActionsChangedPayload, AnyMediaSessionAction, MediaSessionMessage, MediaSessionNotification, PositionStateChangedPayload, WebAudioMessage, WebAudioNotification, WebAudioStateChangedPayload, WindowMessage, WindowNotificationMessage, WindowResponseMessage } from "@/lib/messages";
 import { Constants } from "@/lib/tab-media/constants";
 import { findRootNodes } from "@/lib/tab-media/resource-links";
 import { getReverseDomain } from "@/lib/util/document";
@@ -357,14 +357,37 @@ function installMediaElementPrototypeMethodHooks() {
   });
 }
 
-type MediaSessionActions = Partial<Record<MediaSessionAction, MediaSessionActionHandler>>
+type MediaSessionActionCallDetails =
+  Omit<MediaSessionActionDetails, "action"> & { action: AnyMediaSessionAction }
+
+type MediaSessionActions = Partial<Record<AnyMediaSessionAction, MediaSessionActionHandler>>
 
 const mediaSessionActions: MediaSessionActions = {}
 
+let actionsChangedNotificationPending = false;
+
+// Informs the isolated content script about the registered action handlers.
+// Pages tend to register many handlers at once, so only notify once for those.
+function notifyMediaSessionActionsChanged() {
+  if (actionsChangedNotificationPending) {
+    return;
+  }
+  actionsChangedNotificationPending = true;
+  queueMicrotask(() => {
+    actionsChangedNotificationPending = false;
+    window.postMessage({
+      notification: MediaSessionNotification.ActionsChanged,
+      payload: {
+        actions: Object.keys(mediaSessionActions) as AnyMediaSessionAction[],
+      } as ActionsChangedPayload,
+    } as WindowNotificationMessage);
+  });
+}
+
 function installMediaSessionSetActionHandlerHooks() {
   const original = MediaSession.prototype.setActionHandler;
   MediaSession.prototype.setActionHandler = function (
-    action: MediaSessionAction,
+    action: AnyMediaSessionAction,
     handler: MediaSessionActionHandler | null
   ): void {
     // console.log('[media session action handler]', action, handler);
@@ -373,14 +396,253 @@ function installMediaSessionSetActionHandlerHooks() {
     } else {
       delete mediaSessionActions[action];
     }
-    return original.call(this, action, handler);
+    notifyMediaSessionActionsChanged();
+    return original.call(this, action as MediaSessionAction, handler);
   };
 }
 
+let positionStateChangedPayload: PositionStateChangedPayload | null = null;
+
+function notifyPositionStateChanged() {
+  if (positionStateChangedPayload === null) {
+    return;
+  }
+  window.postMessage({
+    notification: MediaSessionNotification.PositionStateChanged,
+    payload: positionStateChangedPayload,
+  } as WindowNotificationMessage);
+}
+
+function installMediaSessionSetPositionStateHook() {
+  const original = MediaSession.prototype.setPositionState;
+  MediaSession.prototype.setPositionState = function (
+    state?: MediaPositionState
+  ): void {
+    // Invalid position states throw, so only report those that were accepted.
+    const result = original.call(this, state);
+    positionStateChangedPayload = {
+      positionState: state !== undefined && state !== null ? {
+        duration: state.duration,
+        position: state.position,
+        playbackRate: state.playbackRate,
+      } : null,
+      timestamp: Date.now(),
+    };
+    notifyPositionStateChanged();
+    return result;
+  };
+}
+
+let metadataChangedNotificationPending = false;
+
+// Informs the isolated content script that the media session metadata changed,
+// which it can read itself. Pages tend to set several fields at once.
+function notifyMediaSessionMetadataChanged() {
+  if (metadataChangedNotificationPending) {
+    return;
+  }
+  metadataChangedNotificationPending = true;
+  queueMicrotask(() => {
+    metadataChangedNotificationPending = false;
+    window.postMessage({
+      notification: MediaSessionNotification.MetadataChanged,
+    } as WindowNotificationMessage);
+  });
+}
+
+function installPropertySetterHook(
+  prototype: object,
+  property: string,
+  callback: () => void,
+) {
+  const descriptor = Object.getOwnPropertyDescriptor(prototype, property);
+  if (descriptor === undefined || descriptor.set === undefined) {
+    return;
+  }
+  const originalSetter = descriptor.set;
+  Object.defineProperty(prototype, property, {
+    ...descriptor,
+    set(value: unknown) {
+      originalSetter.call(this, value);
+      callback();
+    },
+  });
+}
+
+// Metadata is either replaced entirely or updated field by field.
+// NOTE Fields of metadata that is not assigned to the media session
+// trigger notifications as well, which is harmless.
+function installMediaSessionMetadataHooks() {
+  installPropertySetterHook(MediaSession.prototype, 'metadata',
+    notifyMediaSessionMetadataChanged);
+  for (const field of ['title', 'artist', 'album', 'artwork']) {
+    installPropertySetterHook(MediaMetadata.prototype, field,
+      notifyMediaSessionMetadataChanged);
+  }
+}
+
+// The number of started source nodes that have not ended yet,
+// for each audio context that is not closed.
+const audioContextSources: Map<AudioContext, number> = new Map();
+// Audio contexts that were suspended on request of the extension.
+const suspendedAudioContexts: Set<AudioContext> = new Set();
+let lastWebAudioState: WebAudioStateChangedPayload | null = null;
+let webAudioStateNotificationPending = false;
+let webAudioInactiveTimeout: number | null = null;
+
+// Audio is only reported as inactive after this long without any sources,
+// so that e.g. short sound effects in games do not make media flicker.
+const WEB_AUDIO_INACTIVE_DELAY = 2000;
+
+function currentWebAudioState(): WebAudioStateChangedPayload {
+  let active = false;
+  let playing = false;
+  for (const [context, sources] of audioContextSources) {
+    if (sources > 0) {
+      active = true;
+      playing ||= context.state === "running";
+    }
+  }
+  return { active, playing };
+}
+
+function postWebAudioState(state: WebAudioStateChangedPayload, force: boolean) {
+  if (!force && lastWebAudioState !== null &&
+    lastWebAudioState.active === state.active &&
+    lastWebAudioState.playing === state.playing) {
+    return;
+  }
+  if (!force && lastWebAudioState === null && !state.active) {
+    return; // Nothing to report for pages that never produced audio.
+  }
+  lastWebAudioState = state;
+  window.postMessage({
+    notification: WebAudioNotification.StateChanged,
+    payload: state,
+  } as WindowNotificationMessage);
+}
+
+// Informs the isolated content script whether audio is produced
+// with the Web Audio API, which it cannot observe itself.
+function notifyWebAudioStateChanged(force: boolean = false) {
+  if (webAudioStateNotificationPending) {
+    return;
+  }
+  webAudioStateNotificationPending = true;
+  queueMicrotask(() => {
+    webAudioStateNotificationPending = false;
+    const state = currentWebAudioState();
+    if (!force && !state.active && lastWebAudioState?.active) {
+      if (webAudioInactiveTimeout === null) {
+        webAudioInactiveTimeout = window.setTimeout(() => {
+          webAudioInactiveTimeout = null;
+          postWebAudioState(currentWebAudioState(), false);
+        }, WEB_AUDIO_INACTIVE_DELAY);
+      }
+      return;
+    }
+    if (webAudioInactiveTimeout !== null) {
+      clearTimeout(webAudioInactiveTimeout);
+      webAudioInactiveTimeout = null;
+    }
+    postWebAudioState(state, force);
+  });
+}
+
+function trackAudioContext(context: AudioContext) {
+  if (audioContextSources.has(context)) {
+    return;
+  }
+  audioContextSources.set(context, 0);
+  context.addEventListener('statechange', () => {
+    if (context.state === "closed") {
+      audioContextSources.delete(context);
+      suspendedAudioContexts.delete(context);
+    }
+    notifyWebAudioStateChanged();
+  });
+}
+
+function installAudioContextHooks() {
+  if (typeof AudioContext === "undefined") {
+    return;
+  }
+  // The AudioContext constructor is not replaced, since pages might subclass
+  // it or compare constructors. Audio contexts are tracked once they are used.
+
+  // Audio buffer sources and oscillators produce audio from when they are
+  // started until they ended. Sources of media elements and media streams
+  // are not counted, since those are observed elsewhere or are not media.
+  // Stopping is observed with the "ended" event instead of hooking stop(),
+  // since a source might be scheduled to stop in the future.
+  const originalStart = AudioScheduledSourceNode.prototype.start;
+  const startedSources: WeakSet<AudioScheduledSourceNode> = new WeakSet();
+  AudioScheduledSourceNode.prototype.start = function (
+    ...args: Parameters<typeof originalStart>
+  ): void {
+    const result = originalStart.apply(this, args);
+    const context = this.context;
+    if (context instanceof AudioContext && !startedSources.has(this)) {
+      startedSources.add(this);
+      trackAudioContext(context);
+      audioContextSources.set(context, (audioContextSources.get(context) ?? 0) + 1);
+      this.addEventListener('ended', () => {
+        const sources = audioContextSources.get(context);
+        if (sources !== undefined) {
+          audioContextSources.set(context, Math.max(0, sources - 1));
+        }
+        notifyWebAudioStateChanged();
+      }, { once: true });
+      notifyWebAudioStateChanged();
+    }
+    return result;
+  };
+  // Audio contexts that the page suspends or resumes itself are not resumed
+  // by the extension anymore. State changes are observed with "statechange".
+  for (const method of ['suspend', 'resume'] as const) {
+    const original = AudioContext.prototype[method];
+    AudioContext.prototype[method] = function (): Promise<void> {
+      trackAudioContext(this);
+      suspendedAudioContexts.delete(this);
+      return original.call(this);
+    };
+  }
+}
+
+async function suspendWebAudio(): Promise<boolean> {
+  let suspended = false;
+  for (const [context, sources] of audioContextSources) {
+    if (sources > 0 && context.state === "running") {
+      await context.suspend();
+      suspendedAudioContexts.add(context);
+      suspended = true;
+    }
+  }
+  return suspended;
+}
+
+async function resumeWebAudio(): Promise<boolean> {
+  // Prefer resuming only what was suspended by the extension,
+  // since the page might keep other audio contexts suspended on purpose.
+  let contexts = [...suspendedAudioContexts];
+  if (contexts.length === 0) {
+    contexts = [...audioContextSources.entries()]
+      .filter(([context, sources]) => sources > 0 && context.state === "suspended")
+      .map(([context]) => context);
+  }
+  for (const context of contexts) {
+    await context.resume();
+  }
+  return contexts.length > 0;
+}
+
 function installHooks() {
   installAudioConstructorHook();
   installMediaElementPrototypeMethodHooks();
   installMediaSessionSetActionHandlerHooks();
+  installMediaSessionSetPositionStateHook();
+  installMediaSessionMetadataHooks();
+  installAudioContextHooks();
 }
 
 function isWindowMessage(message: unknown): message is WindowMessage {
@@ -398,11 +660,11 @@ function installMessageHandlers() {
       return;
     }
     let called = false;
-    const call = async (details: MediaSessionActionDetails) => {
+    const call = async (details: MediaSessionActionCallDetails) => {
       const callable = mediaSessionActions[details.action];
       if (callable) {
         try {
-          const value: unknown = callable(details);
+          const value: unknown = callable(details as MediaSessionActionDetails);
           // In case the website returns a Promise, we should await it.
           const result = await value;
           called = true;
@@ -436,6 +698,55 @@ function installMessageHandlers() {
         });
         break;
       }
+      case MediaSessionMessage.ActionSeekBackward:
+      case MediaSessionMessage.ActionSeekForward: {
+        const payload = message.payload as ActionSeekOffsetPayload | undefined;
+        await call({
+          action: message.type === MediaSessionMessage.ActionSeekForward
+            ? 'seekforward' : 'seekbackward',
+          seekOffset: payload?.seekOffset,
+        });
+        break;
+      }
+      case MediaSessionMessage.ActionStop: {
+        await call({ action: 'stop' });
+        break;
+      }
+      case MediaSessionMessage.ActionSkipAd: {
+        await call({ action: 'skipad' });
+        break;
+      }
+      case MediaSessionMessage.ActionToggleMicrophone: {
+        await call({ action: 'togglemicrophone' });
+        break;
+      }
+      case MediaSessionMessage.ActionToggleCamera: {
+        await call({ action: 'togglecamera' });
+        break;
+      }
+      case MediaSessionMessage.ActionHangUp: {
+        await call({ action: 'hangup' });
+        break;
+      }
+      case MediaSessionMessage.ReportActions: {
+        notifyMediaSessionActionsChanged();
+        // The position state might have been set before the
+        // isolated content script started listening as well.
+        notifyPositionStateChanged();
+        if (lastWebAudioState !== null) {
+          notifyWebAudioStateChanged(true);
+        }
+        called = true;
+        break;
+      }
+      case WebAudioMessage.Suspend: {
+        called = await suspendWebAudio();
+        break;
+      }
+      case WebAudioMessage.Resume: {
+        called = await resumeWebAudio();
+        break;
+      }
     }
     window.postMessage({
       messageId: message.id,
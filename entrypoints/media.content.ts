@@ -1,7 +1,11 @@
-import { ActionSeekToPayload, MediaChangedPayload, MediaSessionMessage, OpenLinkPayload, PopupMessage, RuntimeMessage, SeekPositionPayload, TabMessage, WindowMessage, WindowMessageType, WindowResponseMessage } from "@/lib/messages";
+import { ActionSeekOffsetPayload, ActionSeekToPayload, ActionsChangedPayload, AnyMediaSessionAction, ExtensionMessage, MediaChangedEntry, MediaChangedPayload, MediaControlCapabilities, MediaControlResponse, MediaInteractedPayload, MediaSessionMessage, MediaSessionNotification, OpenLinkPayload, PopupMessage, PositionStateChangedPayload, RuntimeMessage, SeekOffsetPayload, SeekPositionPayload, SetPlaybackRatePayload, SetVolumePayload, TabMessage, WebAudioMessage, WebAudioNotification, WebAudioStateChangedPayload, WindowMessage, WindowMessageType, WindowNotificationMessage, WindowResponseMessage } from "@/lib/messages";
 import { BrowserMedia } from "@/lib/proto";
+import { ArtworkEmbedOptions, embedArtwork, isEmbeddableArtwork } from "@/lib/tab-media/artwork";
+import { Constants } from "@/lib/tab-media/constants";
+import { isLiveMediaElement, seekableRange } from "@/lib/tab-media/live";
 import { MediaStateEvent, MediaObserver } from "@/lib/tab-media/observer";
 import { findRootNodes } from "@/lib/tab-media/resource-links";
+import { artworkEmbeddingRequested, artworkMaxDimension } from "@/lib/util/storage";
 
 let mediaObserver: MediaObserver | null = null;
 let lastInteractedMediaElement: HTMLMediaElement | null = null;
@@ -182,93 +186,157 @@ function sendWindowMessage(
 // like skipping a song or rewinding to the previous track.
 const EMPTY_MEDIA_PREVENT_DURATION = 2500;
 
-browser.runtime.onMessage.addListener(async (message: RuntimeMessage) => {
+// Popup messages that only invoke the respective media session action
+// handler of the page, since the media element has no equivalent.
+const PAGE_ONLY_ACTIONS: Partial<Record<PopupMessage, MediaSessionMessage>> = {
+  [PopupMessage.SeekBackward]: MediaSessionMessage.ActionSeekBackward,
+  [PopupMessage.SeekForward]: MediaSessionMessage.ActionSeekForward,
+  [PopupMessage.StopMedia]: MediaSessionMessage.ActionStop,
+  [PopupMessage.SkipAd]: MediaSessionMessage.ActionSkipAd,
+  [PopupMessage.ToggleMicrophone]: MediaSessionMessage.ActionToggleMicrophone,
+  [PopupMessage.ToggleCamera]: MediaSessionMessage.ActionToggleCamera,
+  [PopupMessage.HangUp]: MediaSessionMessage.ActionHangUp,
+};
+
+async function handleRuntimeMessage(
+  message: RuntimeMessage,
+): Promise<MediaControlResponse | undefined> {
   if (!mediaObserver) {
     console.assert(false, 'Media observer not initialized');
     return;
   }
   let isMediaUpdate = false;
+  // Whether the message controls playback, unlike volume or playback rate.
+  let isPlaybackControl = false;
   switch (message.type) {
     case PopupMessage.PauseMedia:
     case PopupMessage.PlayMedia:
-    case PopupMessage.SeekStart:
+    case PopupMessage.RewindToStart:
+    case PopupMessage.PreviousTrack:
     case PopupMessage.SeekPosition:
-    case PopupMessage.NextTrack: {
+    case PopupMessage.NextTrack:
+    case PopupMessage.SeekBackward:
+    case PopupMessage.SeekForward:
+    case PopupMessage.StopMedia:
+    case PopupMessage.SkipAd:
+    case PopupMessage.ToggleMicrophone:
+    case PopupMessage.ToggleCamera:
+    case PopupMessage.HangUp:
+    case PopupMessage.SeekLiveEdge: {
+      isMediaUpdate = true;
+      isPlaybackControl = true;
+      break;
+    }
+    case PopupMessage.SetVolume:
+    case PopupMessage.SetPlaybackRate: {
       isMediaUpdate = true;
       break;
     }
   }
   // Clear any seek retry interval, if the message controls media playback. We
   // don't want an old seek to interfere with new media control actions.
-  if (seekPositionInterval && isMediaUpdate) {
+  if (seekPositionInterval && isPlaybackControl) {
     seekPositionInterval.clear();
   }
   // We always try to prioritize MediaSession action handlers as these are the
   // functions that are called when the user uses their device's media keys and
   // they are guaranteed to work most reliably. If no action handler is
   // registered by the website, then fallback to controlling the media element.
+  const response: MediaControlResponse = {
+    ok: false,
+    handledByPage: false,
+  };
+  // Action handlers and Web Audio belong to the page as a whole,
+  // so they only control its primary media and not any other element.
+  const primary = message.mediaKey === undefined ||
+    message.mediaKey === mediaObserver.primaryKey;
+  const sendPageMessage: typeof sendWindowMessage = primary
+    ? sendWindowMessage : async () => false;
+  const mediaElement = mediaObserver.mediaElementFor(message.mediaKey);
   switch (message.type) {
     case PopupMessage.PauseMedia: {
-      const ok = await sendWindowMessage(MediaSessionMessage.ActionPause);
+      const ok = await sendPageMessage(MediaSessionMessage.ActionPause);
+      response.handledByPage = ok;
       if (!ok) {
-        const mediaElement = mediaObserver.mediaElement;
         if (mediaElement !== null && !mediaElement.paused) {
           mediaElement.pause();
           if (mediaElement.paused) {
-            // Always overwrite the last interacted element with this element
-            // because when media is playing this is definitely the correct one.
-            lastInteractedMediaElement = mediaElement;
+            if (primary) {
+              // Always overwrite the last interacted element with this element
+              // because when media is playing this is definitely the correct one.
+              lastInteractedMediaElement = mediaElement;
+            }
+            response.ok = true;
           }
         }
+        else if (mediaElement === null && webAudioState?.active) {
+          response.ok = await sendPageMessage(WebAudioMessage.Suspend);
+        }
       }
       break;
     }
     case PopupMessage.PlayMedia: {
-      const ok = await sendWindowMessage(MediaSessionMessage.ActionPlay);
+      const ok = await sendPageMessage(MediaSessionMessage.ActionPlay);
+      response.handledByPage = ok;
       if (!ok) {
-        const mediaElement = mediaObserver.mediaElement;
         if (mediaElement !== null && mediaElement.paused) {
           mediaElement.play();
-          if (lastInteractedMediaElement === null && !mediaElement.paused) {
+          response.ok = !mediaElement.paused;
+          if (primary && lastInteractedMediaElement === null && !mediaElement.paused) {
             // Only set the last interacted element if it's not already set
             // and triggering its playing state ended up doing something.
             lastInteractedMediaElement = mediaElement;
           }
         }
-        else if (lastInteractedMediaElement !== null && lastInteractedMediaElement.paused) {
+        else if (primary && lastInteractedMediaElement !== null && lastInteractedMediaElement.paused) {
           lastInteractedMediaElement.play();
+          response.ok = !lastInteractedMediaElement.paused;
           if (lastInteractedMediaElement.paused) {
             // Still paused, so remove it.
             lastInteractedMediaElement = null;
           }
         }
+        else if (mediaElement === null && webAudioState?.active) {
+          response.ok = await sendPageMessage(WebAudioMessage.Resume);
+        }
       }
       break;
     }
-    case PopupMessage.SeekStart: {
-      mediaObserver.preventEmptyMediaTemporarily(EMPTY_MEDIA_PREVENT_DURATION);
-      const ok = await sendWindowMessage(MediaSessionMessage.ActionPreviousTrack);
+    case PopupMessage.RewindToStart: {
+      const ok = await sendPageMessage(MediaSessionMessage.ActionSeekTo, {
+        position: 0,
+      } as ActionSeekToPayload);
+      response.handledByPage = ok;
       if (!ok) {
-        const mediaElement = mediaObserver.mediaElement;
         if (mediaElement !== null) {
           if (mediaElement.paused) {
             mediaElement.play();
           }
           if (!mediaElement.paused) {
             mediaElement.currentTime = 0;
+            response.ok = true;
           }
         }
       }
       break;
     }
+    case PopupMessage.PreviousTrack: {
+      // The media element has no notion of tracks,
+      // so only the page itself can go to the previous track.
+      mediaObserver.preventEmptyMediaTemporarily(EMPTY_MEDIA_PREVENT_DURATION);
+      const ok = await sendPageMessage(MediaSessionMessage.ActionPreviousTrack);
+      response.handledByPage = ok;
+      response.ok = ok;
+      break;
+    }
     case PopupMessage.SeekPosition: {
       const seekPositionPayload = message.payload as SeekPositionPayload;
-      let ok = await sendWindowMessage(MediaSessionMessage.ActionSeekTo, {
+      let ok = await sendPageMessage(MediaSessionMessage.ActionSeekTo, {
         position: seekPositionPayload.position,
       } as ActionSeekToPayload);
-      ok = ok && await sendWindowMessage(MediaSessionMessage.ActionPlay);
+      ok = ok && await sendPageMessage(MediaSessionMessage.ActionPlay);
+      response.handledByPage = ok;
       if (!ok) {
-        const mediaElement = mediaObserver.mediaElement;
         if (mediaElement !== null) {
           const oldPosition = mediaElement.currentTime;
           const newPosition = seekPositionPayload.position;
@@ -280,6 +348,7 @@ browser.runtime.onMessage.addListener(async (message: RuntimeMessage) => {
             // element and click on the respective position in the DOM instead.
             seekPositionInterval = new SeekPositionRetryInterval(
               mediaElement, newPosition, oldPosition, SEEK_POSITION_RETRY_CONFIG);
+            response.ok = true;
           }
         }
       }
@@ -287,9 +356,9 @@ browser.runtime.onMessage.addListener(async (message: RuntimeMessage) => {
     }
     case PopupMessage.NextTrack: {
       mediaObserver.preventEmptyMediaTemporarily(EMPTY_MEDIA_PREVENT_DURATION);
-      const ok = await sendWindowMessage(MediaSessionMessage.ActionNextTrack);
+      const ok = await sendPageMessage(MediaSessionMessage.ActionNextTrack);
+      response.handledByPage = ok;
       if (!ok) {
-        const mediaElement = mediaObserver.mediaElement;
         if (mediaElement !== null) {
           if (isNaN(mediaElement.duration)) {
             console.error("Cannot skip to the next track: The duration is not a number");
@@ -305,11 +374,62 @@ browser.runtime.onMessage.addListener(async (message: RuntimeMessage) => {
           if (!mediaElement.paused) {
             // Add a few seconds so it doesn't play the last few seconds.
             mediaElement.currentTime = mediaElement.duration + 2;
+            response.ok = true;
           }
         }
       }
       break;
     }
+    case PopupMessage.SetVolume: {
+      // Media session action handlers cannot control the volume,
+      // so this always controls the media element directly.
+      const setVolumePayload = message.payload as SetVolumePayload;
+      if (mediaElement !== null) {
+        mediaElement.volume = Math.min(1, Math.max(0, setVolumePayload.volume));
+        mediaElement.muted = setVolumePayload.muted;
+        response.ok = true;
+      }
+      break;
+    }
+    case PopupMessage.SetPlaybackRate: {
+      const setPlaybackRatePayload = message.payload as SetPlaybackRatePayload;
+      if (mediaElement !== null) {
+        try {
+          mediaElement.playbackRate = setPlaybackRatePayload.playbackRate;
+          response.ok = true;
+        } catch (e) {
+          console.error("Failed to set the playback rate", e);
+        }
+      }
+      break;
+    }
+    case PopupMessage.SeekLiveEdge: {
+      // The page's action handlers cannot seek to the live edge,
+      // so this always controls the media element directly.
+      const range = mediaElement !== null ? seekableRange(mediaElement) : null;
+      if (mediaElement !== null && range !== null) {
+        if (mediaElement.paused) {
+          mediaElement.play();
+        }
+        mediaElement.currentTime = range.end / 1000;
+        response.ok = true;
+      }
+      break;
+    }
+    case PopupMessage.SeekBackward:
+    case PopupMessage.SeekForward:
+    case PopupMessage.StopMedia:
+    case PopupMessage.SkipAd:
+    case PopupMessage.ToggleMicrophone:
+    case PopupMessage.ToggleCamera:
+    case PopupMessage.HangUp: {
+      const seekOffsetPayload = message.payload as SeekOffsetPayload | undefined;
+      const ok = await sendPageMessage(PAGE_ONLY_ACTIONS[message.type]!, {
+        seekOffset: seekOffsetPayload?.seekOffset,
+      } as ActionSeekOffsetPayload);
+      response.handledByPage = ok;
+      break;
+    }
     case PopupMessage.OpenLink: {
       const openLinkPayload = message.payload as OpenLinkPayload;
       if (openLinkPayload.href !== undefined) {
@@ -319,43 +439,284 @@ browser.runtime.onMessage.addListener(async (message: RuntimeMessage) => {
       }
       break;
     }
+    case ExtensionMessage.ReportMediaState: {
+      // The background script needs the full current state,
+      // e.g. because it restarted or its state might be outdated.
+      mediaObserver.updateHint(true);
+      break;
+    }
+  }
+  if (isPlaybackControl && !message.automatic) {
+    browser.runtime.sendMessage({
+      type: TabMessage.MediaInteracted,
+      payload: {
+        mediaKey: message.mediaKey ?? mediaObserver.primaryKey,
+      } as MediaInteractedPayload,
+    } as RuntimeMessage);
   }
   if (isMediaUpdate) {
     mediaObserver.updateHint();
   }
+  if (response.handledByPage) {
+    response.ok = true;
+  }
+  return isMediaUpdate ? response : undefined;
+}
+
+browser.runtime.onMessage.addListener((
+  message: RuntimeMessage,
+  sender: Browser.runtime.MessageSender,
+  sendResponse: (response?: MediaControlResponse) => void,
+) => {
+  // Respond asynchronously, so that senders can await the result.
+  handleRuntimeMessage(message).then(sendResponse);
+  return true;
 });
 
-function onMediaUpdated(event: MediaStateEvent | null) {
+function isWindowNotificationMessage(
+  message: unknown,
+): message is WindowNotificationMessage {
+  return typeof message === "object" && message !== null &&
+    "notification" in message;
+}
+
+// Media session actions for which the page registered a handler.
+let mediaSessionActions: AnyMediaSessionAction[] = [];
+let lastMediaStateEvents: MediaStateEvent[] = [];
+// Whether the page produces audio with the Web Audio API.
+let webAudioState: WebAudioStateChangedPayload | null = null;
+
+function onWindowNotification(event: MessageEvent) {
+  if (event.source !== window) {
+    return;
+  }
+  const message = event.data;
+  if (!isWindowNotificationMessage(message)) {
+    return;
+  }
+  switch (message.notification) {
+    case MediaSessionNotification.ActionsChanged: {
+      const actionsChangedPayload = message.payload as ActionsChangedPayload;
+      mediaSessionActions = actionsChangedPayload.actions;
+      // The media state itself did not change, so report it again
+      // with the updated capabilities.
+      if (lastMediaStateEvents.length > 0) {
+        onMediaUpdated(lastMediaStateEvents);
+      }
+      break;
+    }
+    case WebAudioNotification.StateChanged: {
+      webAudioState = message.payload as WebAudioStateChangedPayload;
+      mediaObserver?.updateWebAudioState(webAudioState.active, webAudioState.playing);
+      break;
+    }
+    case MediaSessionNotification.MetadataChanged: {
+      // The metadata might be set before any media element plays.
+      // Pages report the position state of the new track after its metadata.
+      mediaObserver?.resetPositionState();
+      mediaObserver?.updateHint();
+      break;
+    }
+    case MediaSessionNotification.PositionStateChanged: {
+      const positionStateChangedPayload = message.payload as PositionStateChangedPayload;
+      mediaObserver?.updatePositionState(
+        positionStateChangedPayload.positionState,
+        positionStateChangedPayload.timestamp);
+      break;
+    }
+  }
+}
+
+// Artwork that has been embedded into media updates,
+// keyed by the data: or blob: URL it was resolved from.
+const embeddedArtwork: Map<string, Promise<BrowserMedia.MediaState_Image | null>> = new Map();
+let mediaUpdateSequence = 0;
+
+/**
+ * Embeds the image data of artwork with a URL that only exists within the page,
+ * if any connected application wants it. The URL is kept next to the data,
+ * unless it is a blob: URL, which cannot be used outside of the page at all.
+ * Artwork that cannot be embedded is kept as it is.
+ */
+async function embedImages(
+  images: BrowserMedia.MediaState_Image[],
+): Promise<BrowserMedia.MediaState_Image[]> {
+  if (!images.some(isEmbeddableArtwork) ||
+    !await artworkEmbeddingRequested.getValue()) {
+    return images;
+  }
+  const options: ArtworkEmbedOptions = {
+    maxBytes: Constants.MAX_EMBEDDED_ARTWORK_BYTES,
+    maxDimension: await artworkMaxDimension.getValue(),
+  };
+  const result: BrowserMedia.MediaState_Image[] = [];
+  for (const image of images) {
+    if (!isEmbeddableArtwork(image)) {
+      result.push(image);
+      continue;
+    }
+    let embedded = embeddedArtwork.get(image.url!);
+    if (embedded === undefined) {
+      embedded = embedArtwork(image, options);
+      embeddedArtwork.set(image.url!, embedded);
+    }
+    const embeddedImage = await embedded;
+    if (embeddedImage === null) {
+      result.push(image);
+    } else if (image.url!.startsWith("blob:")) {
+      result.push(embeddedImage);
+    } else {
+      result.push({ ...embeddedImage, url: image.url });
+    }
+  }
+  return result;
+}
+
+/**
+ * Forgets embedded artwork that is not used by any of the given images.
+ */
+function pruneEmbeddedArtwork(images: BrowserMedia.MediaState_Image[]) {
+  const urls = new Set(images.filter(isEmbeddableArtwork).map(image => image.url!));
+  for (const url of embeddedArtwork.keys()) {
+    if (!urls.has(url)) {
+      embeddedArtwork.delete(url);
+    }
+  }
+}
+
+function mediaControls(
+  mediaElement: HTMLMediaElement | null,
+  primary: boolean,
+): MediaControlCapabilities {
   // TODO Do we need this check?
   // || lastInteractedMediaElement !== null
-  const hasMediaElement = mediaObserver?.mediaElement !== null
+  const hasMediaElement = mediaElement !== null;
+  const live = mediaElement !== null && isLiveMediaElement(mediaElement);
+  // The media session and Web Audio only belong to the primary media.
+  const actions = primary ? mediaSessionActions : [];
+  return {
+    // Media that has not been played yet can only be started by the page.
+    playPause: hasMediaElement || (primary && (webAudioState?.active ?? false)) ||
+      (actions.includes('play') && actions.includes('pause')),
+    rewindToStart: hasMediaElement || actions.includes('seekto'),
+    previousTrack: actions.includes('previoustrack'),
+    // Live streams can only be skipped to their live edge.
+    skip: mediaElement !== null && !live &&
+      mediaElement.duration !== undefined &&
+      !isNaN(mediaElement.duration) &&
+      isFinite(mediaElement.duration),
+    volume: hasMediaElement,
+    playbackRate: hasMediaElement,
+    seekLiveEdge: live && seekableRange(mediaElement) !== null,
+  };
+}
+
+async function onMediaUpdated(events: MediaStateEvent[]) {
+  lastMediaStateEvents = events;
+  const sequence = ++mediaUpdateSequence;
+  const media: MediaChangedEntry[] = [];
+  for (const event of events) {
+    const mediaElement = mediaObserver?.mediaElementFor(event.key) ?? null;
+    const controls = mediaControls(mediaElement, event.primary);
+    const state: BrowserMedia.MediaState = {
+      ...event.state,
+      playbackState: event.state.playbackState && mediaElement !== null ? {
+        ...event.state.playbackState,
+        playbackRate: mediaElement.playbackRate,
+      } : event.state.playbackState,
+      volume: mediaElement !== null ? {
+        level: mediaElement.volume,
+        muted: mediaElement.muted,
+      } : undefined,
+      capabilities: {
+        playPause: controls.playPause,
+        seekStart: controls.rewindToStart,
+        previousTrack: controls.previousTrack,
+        skip: controls.skip,
+        mediaSessionActions: event.primary ? [...mediaSessionActions] : [],
+        volume: controls.volume,
+        playbackRate: controls.playbackRate,
+      },
+    };
+    state.images = await embedImages(state.images);
+    if (sequence !== mediaUpdateSequence) {
+      return; // Superseded by a more recent update.
+    }
+    media.push({
+      key: event.key,
+      stateJson: BrowserMedia.MediaState.toJSON(state) as object,
+      controls,
+      metadataButtons: event.clientState.metadataButtons,
+      playbackStateSource: event.clientState.playbackStateSource,
+    });
+  }
+  pruneEmbeddedArtwork(events.flatMap(event => event.state.images));
+  connectToBackground();
   browser.runtime.sendMessage({
     type: TabMessage.MediaChanged,
     payload: {
-      stateJson: event ? BrowserMedia.MediaState.toJSON(event.state) as object : null,
-      controls: {
-        playPause: hasMediaElement,
-        seekStart: hasMediaElement,
-        skip: mediaObserver?.mediaElement !== null &&
-          mediaObserver?.mediaElement.duration !== undefined &&
-          !isNaN(mediaObserver?.mediaElement.duration) &&
-          isFinite(mediaObserver?.mediaElement.duration)
-      },
-      metadataButtons: event ? event.clientState.metadataButtons : [],
+      media,
     } as MediaChangedPayload,
   } as RuntimeMessage);
 }
 
+let backgroundPort: Browser.runtime.Port | null = null;
+
+/**
+ * Connects to the background script for the time the content script is active.
+ * This is necessary to detect when the content script, and especially
+ * iframes embedded in the page, disappear.
+ * The port is disconnected when the background script is suspended,
+ * so it is reconnected with the next message to the background script.
+ */
+function connectToBackground() {
+  if (backgroundPort !== null) {
+    return;
+  }
+  const port = browser.runtime.connect({ name: "contentscript" });
+  port.onDisconnect.addListener(() => {
+    backgroundPort = null;
+  });
+  backgroundPort = port;
+}
+
 function init() {
-  // Connect to the background script for the time the content script is active.
-  // This is necessary to detect when the content script, and especially
-  // iframes embedded in the page, disappear.
-  browser.runtime.connect({ name: "contentscript" });
+  connectToBackground();
 
   // Observe media playback on the page.
   mediaObserver = new MediaObserver();
   mediaObserver.addEventListener(onMediaUpdated);
   mediaObserver.start();
+  if (navigator.mediaSession.metadata !== null) {
+    // The page set its metadata before this script was loaded.
+    mediaObserver.updateHint();
+  }
+
+  // Track the media session actions the page registers and request the ones
+  // that were registered before this content script was running.
+  window.addEventListener("message", onWindowNotification);
+  sendWindowMessage(MediaSessionMessage.ReportActions);
+
+  // Report volume and playback rate changes of the current media element,
+  // which are not media state changes the observer reacts to.
+  // These events do not bubble, so they are captured instead.
+  for (const eventName of ["volumechange", "ratechange"]) {
+    document.addEventListener(eventName, (event) => {
+      if (event.target !== null && mediaObserver?.isMediaElement(event.target)) {
+        mediaObserver.updateHint(true);
+      }
+    }, true);
+  }
+
+  artworkMaxDimension.watch(() => {
+    embeddedArtwork.clear();
+    onMediaUpdated(lastMediaStateEvents);
+  });
+  artworkEmbeddingRequested.watch((requested, wasRequested) => {
+    if (requested !== wasRequested) {
+      onMediaUpdated(lastMediaStateEvents);
+    }
+  });
 }
 
 export default defineContentScript({
@@ -0,0 +1,112 @@
+import { mostRecentMedia } from "./commands";
+import { BrowserMedia } from "./proto";
+
+/**
+ * What the badge on the extension's toolbar icon shows.
+ */
+export enum BadgeMode {
+  /**
+   * The badge is not shown.
+   */
+  Off = "off",
+  /**
+   * The number of media in all tabs.
+   */
+  MediaCount = "media_count",
+  /**
+   * The number of media that is currently playing.
+   */
+  PlayingCount = "playing_count",
+  /**
+   * A play or pause symbol for the most recently updated media.
+   */
+  PlaybackState = "playback_state",
+}
+
+const PLAYING_COLOR = "#1d7a3a";
+const PAUSED_COLOR = "#555";
+const PLAYING_SYMBOL = "▶";
+const PAUSED_SYMBOL = "❚❚";
+
+interface BadgeState {
+  text: string
+  color: string
+  title: string
+}
+
+/**
+ * Shows the state of all media in the badge and the tooltip
+ * of the extension's toolbar icon.
+ */
+export class Badge {
+
+  private appliedState: BadgeState | null = null
+
+  /**
+   * Updates the badge to reflect the given media.
+   * The browser is only called when anything changed.
+   *
+   * @param media All currently active media.
+   */
+  update(media: BrowserMedia.MediaState[], mode: BadgeMode) {
+    const playingCount = media.filter(state => state.playbackState?.playing).length;
+    const recentMedia = mostRecentMedia(media);
+    let text = "";
+    switch (mode) {
+      case BadgeMode.Off:
+        break;
+      case BadgeMode.MediaCount:
+        text = badgeCount(media.length);
+        break;
+      case BadgeMode.PlayingCount:
+        text = badgeCount(playingCount);
+        break;
+      case BadgeMode.PlaybackState:
+        if (recentMedia !== null) {
+          text = recentMedia.playbackState?.playing ? PLAYING_SYMBOL : PAUSED_SYMBOL;
+        }
+        break;
+      default:
+        mode satisfies never;
+        break;
+    }
+    const playing = mode === BadgeMode.PlaybackState
+      ? recentMedia?.playbackState?.playing ?? false
+      : playingCount > 0;
+    this.#apply({
+      text,
+      color: playing ? PLAYING_COLOR : PAUSED_COLOR,
+      title: recentMedia !== null
+        ? mediaTitle(recentMedia)
+        : browser.runtime.getManifest().name,
+    });
+  }
+
+  #apply(state: BadgeState) {
+    const previous = this.appliedState;
+    this.appliedState = state;
+    const browserAction = browser.action ?? browser.browserAction;
+    if (previous?.text !== state.text) {
+      browserAction.setBadgeText({ text: state.text });
+    }
+    if (previous?.color !== state.color) {
+      browserAction.setBadgeBackgroundColor({ color: state.color });
+    }
+    if (previous?.title !== state.title) {
+      browserAction.setTitle({ title: state.title });
+    }
+  }
+}
+
+function badgeCount(count: number): string {
+  if (count === 0) {
+    return "";
+  }
+  return count > 9 ? "9+" : String(count);
+}
+
+function mediaTitle(state: BrowserMedia.MediaState): string {
+  const title = state.metadata?.title ?? "";
+  const artist = state.metadata?.artist;
+  return artist ? `${title} – ${artist}` : title;
+}
@@ -0,0 +1,135 @@
+import { BridgeSession, BridgeSessionOptions, BridgeSessionState } from "./session";
+import { IBridgeTransport } from "./transport";
+
+/**
+ * Creates a new transport for each connection attempt.
+ * Returns null if the transport is currently disabled.
+ */
+export type BridgeTransportFactory = () => Promise<IBridgeTransport | null>;
+
+/**
+ * Delays between connection attempts, which are doubled after each attempt.
+ */
+export interface BridgeReconnectOptions {
+  initialDelay: number
+  maxDelay: number
+}
+
+/**
+ * Keeps a protocol session connected over a specific kind of transport,
+ * reconnecting with exponential backoff whenever the connection is lost.
+ * All transports share the same {@link BridgeSession} state machine.
+ */
+export class BridgeConnector {
+
+  private running: boolean = false
+  private transport: IBridgeTransport | null = null
+  private _session: BridgeSession | null = null
+  private reconnectDelay: number
+  private reconnectTimeout: NodeJS.Timeout | null = null
+  // Incremented whenever the connector is stopped, so that connection
+  // attempts that are still in flight from before can be discarded.
+  private generation: number = 0
+
+  constructor(
+    private readonly createTransport: BridgeTransportFactory,
+    private readonly sessionOptions: BridgeSessionOptions,
+    private readonly reconnectOptions: BridgeReconnectOptions,
+  ) {
+    this.reconnectDelay = reconnectOptions.initialDelay;
+  }
+
+  /**
+   * The current session, if a connection is established.
+   */
+  get session(): BridgeSession | null { return this._session; }
+
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.#connect();
+  }
+
+  stop() {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.generation++;
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    const transport = this.transport;
+    this.transport = null;
+    this._session = null;
+    this.reconnectDelay = this.reconnectOptions.initialDelay;
+    transport?.disconnect();
+  }
+
+  restart() {
+    this.stop();
+    this.start();
+  }
+
+  async #connect() {
+    this.reconnectTimeout = null;
+    const generation = this.generation;
+    const transport = await this.createTransport();
+    if (transport === null) {
+      return;
+    }
+    if (!this.running || this.generation !== generation) {
+      // Stopped or restarted while creating the transport.
+      transport.disconnect();
+      return;
+    }
+    const session = new BridgeSession(transport, this.sessionOptions);
+    transport.addMessageListener(() => {
+      // The other end is alive and speaks the protocol, once it accepted
+      // the Hello message. Receivers that speak an incompatible version
+      // are retried with increasing delays.
+      if (session.state === BridgeSessionState.Accepted ||
+        session.state === BridgeSessionState.Subscribed) {
+        this.reconnectDelay = this.reconnectOptions.initialDelay;
+      }
+    });
+    transport.addDisconnectListener(() => {
+      if (this.transport !== transport) {
+        return; // Disconnected deliberately.
+      }
+      this.transport = null;
+      this._session = null;
+      this.#scheduleReconnect();
+    });
+    this.transport = transport;
+    const connected = await transport.connect();
+    if (this.transport !== transport || this.generation !== generation) {
+      // Stopped or restarted while connecting.
+      if (this.transport === transport) {
+        this.transport = null;
+      }
+      transport.disconnect();
+      return;
+    }
+    if (!connected) {
+      this.transport = null;
+      this.#scheduleReconnect();
+      return;
+    }
+    this._session = session;
+    session.open();
+  }
+
+  #scheduleReconnect() {
+    if (!this.running || this.reconnectTimeout !== null) {
+      return;
+    }
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(
+      2 * this.reconnectDelay, this.reconnectOptions.maxDelay);
+    this.reconnectTimeout = setTimeout(this.#connect.bind(this), delay);
+  }
+}
@@ -0,0 +1,89 @@
+import { BrowserMedia } from "../proto";
+import { BridgeDisconnectCallback, BridgeMessageCallback, IBridgeTransport } from "./transport";
+
+/**
+ * Exchanges protocol messages with a native application
+ * through the browser's native messaging API.
+ * Native messaging only supports JSON, so messages are sent
+ * in their JSON representation.
+ */
+export class NativeMessagingTransport implements IBridgeTransport {
+
+  private port: Browser.runtime.Port | null = null
+  private messageCallbacks: BridgeMessageCallback[] = []
+  private disconnectCallbacks: BridgeDisconnectCallback[] = []
+
+  constructor(private readonly hostName: string) { }
+
+  /**
+   * Launches the native messaging host and connects to it.
+   * Note that the browser reports a missing or failing host
+   * by disconnecting shortly after the connection has been established.
+   */
+  async connect(): Promise<boolean> {
+    if (this.port !== null) {
+      return true;
+    }
+    try {
+      this.port = browser.runtime.connectNative(this.hostName);
+    } catch (e) {
+      console.error("Failed to connect to the native messaging host", e);
+      return false;
+    }
+    this.port.onMessage.addListener(this.#onMessage.bind(this));
+    this.port.onDisconnect.addListener(this.#onDisconnect.bind(this));
+    return true;
+  }
+
+  send(message: BrowserMedia.Message): void {
+    if (this.port === null) {
+      console.assert(false, "Not connected to the native messaging host");
+      return;
+    }
+    this.port.postMessage(BrowserMedia.Message.toJSON(message));
+  }
+
+  disconnect(): void {
+    if (this.port === null) {
+      return;
+    }
+    // Calling disconnect() does not trigger onDisconnect for this end.
+    this.port.disconnect();
+    this.#onDisconnect();
+  }
+
+  addMessageListener(callback: BridgeMessageCallback): void {
+    this.messageCallbacks.push(callback);
+  }
+
+  addDisconnectListener(callback: BridgeDisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  #onMessage(message: unknown) {
+    let parsed: BrowserMedia.Message;
+    try {
+      parsed = BrowserMedia.Message.fromJSON(message);
+    } catch (e) {
+      console.error("Received a malformed message from the native messaging host", message, e);
+      return;
+    }
+    for (const callback of this.messageCallbacks) {
+      callback(parsed);
+    }
+  }
+
+  #onDisconnect() {
+    if (this.port === null) {
+      return;
+    }
+    const error = browser.runtime.lastError;
+    if (error) {
+      console.warn("Disconnected from the native messaging host:", error.message);
+    }
+    this.port = null;
+    for (const callback of this.disconnectCallbacks) {
+      callback();
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { BrowserMedia } from "../proto";
+import { BridgeSession, BridgeSessionOptions, BridgeSessionState, PROTOCOL_VERSION } from "./session";
+import { BridgeDisconnectCallback, BridgeMessageCallback, IBridgeTransport } from "./transport";
+
+class FakeTransport implements IBridgeTransport {
+
+  sent: BrowserMedia.Message[] = []
+  disconnected = false
+  private messageListeners: BridgeMessageCallback[] = []
+  private disconnectListeners: BridgeDisconnectCallback[] = []
+
+  async connect() { return true; }
+  send(message: BrowserMedia.Message) { this.sent.push(message); }
+  disconnect() { this.disconnected = true; }
+  addMessageListener(callback: BridgeMessageCallback) { this.messageListeners.push(callback); }
+  addDisconnectListener(callback: BridgeDisconnectCallback) { this.disconnectListeners.push(callback); }
+
+  receive(message: BrowserMedia.Message) {
+    this.messageListeners.forEach(listener => listener(message));
+  }
+
+  drop() {
+    this.disconnectListeners.forEach(listener => listener());
+  }
+}
+
+function mediaState(id: string, reverseDomain: string, title: string): BrowserMedia.MediaState {
+  return BrowserMedia.MediaState.fromPartial({
+    id,
+    source: { reverseDomain },
+    metadata: { title },
+  });
+}
+
+describe("BridgeSession", () => {
+
+  let transport: FakeTransport;
+  let media: BrowserMedia.MediaState[];
+  let options: BridgeSessionOptions;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => { });
+    transport = new FakeTransport();
+    media = [];
+    options = {
+      browserType: BrowserMedia.BrowserType.CHROMIUM,
+      currentMedia: () => media,
+      executeCommand: vi.fn(),
+      mediaHistory: () => [],
+      requestMediaStates: vi.fn(),
+      featuresChanged: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function acceptedSession(): BridgeSession {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    transport.receive(BrowserMedia.Message.fromPartial({
+      helloReply: { protocolVersion: PROTOCOL_VERSION },
+    }));
+    transport.sent = [];
+    return session;
+  }
+
+  function subscribe(updateMode: BrowserMedia.UpdateMode) {
+    transport.receive(BrowserMedia.Message.fromPartial({
+      subscribeMedia: {
+        websites: [{ reverseDomain: "com.example", includeSubdomains: true }],
+        updateMode,
+      },
+    }));
+  }
+
+  test("sends Hello when it is opened", () => {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    expect(session.state).toBe(BridgeSessionState.Greeted);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].hello?.protocolVersion).toBe(PROTOCOL_VERSION);
+  });
+
+  test("is accepted with a reply that chooses a supported version", () => {
+    const session = acceptedSession();
+    expect(session.state).toBe(BridgeSessionState.Accepted);
+    expect(session.protocolVersion).toBe(PROTOCOL_VERSION);
+    expect(options.featuresChanged).toHaveBeenCalledOnce();
+  });
+
+  test("closes when the reply chooses an unsupported version", () => {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    transport.receive(BrowserMedia.Message.fromPartial({
+      helloReply: { protocolVersion: PROTOCOL_VERSION + 1 },
+    }));
+    expect(session.state).toBe(BridgeSessionState.Closed);
+    expect(transport.disconnected).toBe(true);
+  });
+
+  test("closes when there is no reply to Hello in time", () => {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    vi.advanceTimersByTime(9 * 1000);
+    expect(session.state).toBe(BridgeSessionState.Greeted);
+    vi.advanceTimersByTime(1000);
+    expect(session.state).toBe(BridgeSessionState.Closed);
+    expect(transport.disconnected).toBe(true);
+  });
+
+  test("does not close after a timely reply to Hello", () => {
+    const session = acceptedSession();
+    vi.advanceTimersByTime(60 * 1000);
+    expect(session.state).toBe(BridgeSessionState.Accepted);
+  });
+
+  test("ignores subscriptions before the reply to Hello", () => {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    subscribe(BrowserMedia.UpdateMode.FULL);
+    expect(session.state).toBe(BridgeSessionState.Greeted);
+  });
+
+  test("only enables the features that are supported", () => {
+    const session = new BridgeSession(transport, options);
+    session.open();
+    transport.receive(BrowserMedia.Message.fromPartial({
+      helloReply: {
+        protocolVersion: PROTOCOL_VERSION,
+        features: [BrowserMedia.Feature.MEDIA_COMMANDS],
+      },
+    }));
+    expect(session.hasFeature(BrowserMedia.Feature.MEDIA_COMMANDS)).toBe(true);
+    expect(session.hasFeature(BrowserMedia.Feature.EMBEDDED_ARTWORK)).toBe(false);
+    transport.drop();
+    expect(session.hasFeature(BrowserMedia.Feature.MEDIA_COMMANDS)).toBe(false);
+  });
+
+  test("sends all subscribed media right after subscribing", () => {
+    media = [
+      mediaState("a", "com.example.music", "A"),
+      mediaState("b", "org.other", "B"),
+    ];
+    const session = acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.FULL);
+    expect(session.state).toBe(BridgeSessionState.Subscribed);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].mediaUpdate?.media.map(state => state.id)).toEqual(["a"]);
+    expect(options.requestMediaStates).toHaveBeenCalledOnce();
+  });
+
+  test("sends all media with every update in full update mode", () => {
+    const session = acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.FULL);
+    session.publish([mediaState("a", "com.example", "A")]);
+    session.publish([mediaState("a", "com.example", "A"), mediaState("b", "com.example", "B")]);
+    expect(transport.sent.map(message => message.mediaUpdate?.media.length))
+      .toEqual([0, 1, 2]);
+  });
+
+  test("sends only changes in delta update mode", () => {
+    media = [mediaState("a", "com.example", "A")];
+    const session = acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    expect(transport.sent[0].mediaUpdate?.media).toHaveLength(1);
+    transport.sent = [];
+
+    session.publish([mediaState("a", "com.example", "A")]);
+    expect(transport.sent).toHaveLength(0);
+    session.publish([mediaState("a", "com.example", "A2"), mediaState("b", "com.example", "B")]);
+    session.publish([mediaState("b", "com.example", "B")]);
+    expect(transport.sent.map(message => message.mediaUpdateDelta)).toEqual([
+      {
+        added: [mediaState("b", "com.example", "B")],
+        changed: [mediaState("a", "com.example", "A2")],
+        removed: [],
+      },
+      { added: [], changed: [], removed: ["a"] },
+    ]);
+  });
+
+  test("sends a snapshot every minute in delta update mode", () => {
+    media = [mediaState("a", "com.example", "A")];
+    acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    transport.sent = [];
+    vi.advanceTimersByTime(60 * 1000);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].mediaUpdate?.media).toHaveLength(1);
+  });
+
+  test("stops sending updates when the subscription is cancelled", () => {
+    media = [mediaState("a", "com.example", "A")];
+    const session = acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    transport.receive(BrowserMedia.Message.fromPartial({ cancelMediaSubscription: {} }));
+    transport.sent = [];
+    expect(session.state).toBe(BridgeSessionState.Accepted);
+    session.publish([mediaState("a", "com.example", "A2")]);
+    vi.advanceTimersByTime(60 * 1000);
+    expect(transport.sent).toHaveLength(0);
+    expect(transport.disconnected).toBe(false);
+  });
+
+  test("starts over with a full update when subscribing again", () => {
+    media = [mediaState("a", "com.example", "A")];
+    acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    transport.receive(BrowserMedia.Message.fromPartial({ cancelMediaSubscription: {} }));
+    transport.sent = [];
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].mediaUpdate?.media).toHaveLength(1);
+  });
+
+  test("stops sending updates when the transport disconnects", () => {
+    media = [mediaState("a", "com.example", "A")];
+    const session = acceptedSession();
+    subscribe(BrowserMedia.UpdateMode.DELTA);
+    transport.drop();
+    transport.sent = [];
+    expect(session.state).toBe(BridgeSessionState.Closed);
+    session.publish([mediaState("a", "com.example", "A2")]);
+    vi.advanceTimersByTime(60 * 1000);
+    expect(transport.sent).toHaveLength(0);
+    expect(options.featuresChanged).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,403 @@
+import deepEqual from "deep-equal";
+import { BrowserMedia } from "../proto";
+import { ReverseDomain } from "../util/reverse-domain";
+import { IBridgeTransport } from "./transport";
+
+// How often a full media update is sent in delta update mode,
+// so that the receiver can resynchronize its state.
+const DELTA_SNAPSHOT_INTERVAL = 60 * 1000;
+
+const SUPPORTED_UPDATE_MODES = [
+  BrowserMedia.UpdateMode.FULL,
+  BrowserMedia.UpdateMode.DELTA,
+];
+
+// The range of protocol versions the receiver may choose from.
+// Increment the protocol version with every incompatible change
+// and raise the minimum version once older versions cannot be spoken anymore.
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// How long the receiver has to reply to the Hello message.
+// Receivers from before the version negotiation never reply,
+// so the session would otherwise never get past the Hello message.
+const HELLO_REPLY_TIMEOUT = 10 * 1000;
+
+const SUPPORTED_FEATURES = [
+  BrowserMedia.Feature.MEDIA_COMMANDS,
+  BrowserMedia.Feature.EMBEDDED_ARTWORK,
+];
+
+/**
+ * The state of a protocol session,
+ * following the message order that is described in the protocol definition.
+ */
+export enum BridgeSessionState {
+  /**
+   * The transport is connected, but the Hello message has not been sent yet.
+   */
+  Connected,
+  /**
+   * The Hello message has been sent, but the receiver has not replied yet.
+   */
+  Greeted,
+  /**
+   * The receiver accepted the Hello message and no subscription is active.
+   */
+  Accepted,
+  /**
+   * The receiver subscribed to media updates.
+   */
+  Subscribed,
+  /**
+   * The transport has been disconnected and the session cannot be used anymore.
+   */
+  Closed,
+}
+
+export interface BridgeSessionOptions {
+  /**
+   * The browser type that is sent to the receiver with the Hello message.
+   */
+  browserType: BrowserMedia.BrowserType
+  /**
+   * Returns the currently active media, which is sent to the receiver
+   * immediately after it subscribed to media updates.
+   */
+  currentMedia: () => BrowserMedia.MediaState[]
+  /**
+   * Carries out a media command that was sent by the receiver.
+   */
+  executeCommand: (command: BrowserMedia.MediaCommand) =>
+    Promise<BrowserMedia.MediaCommandResult>
+  /**
+   * Returns the recently played tracks across all tabs.
+   */
+  mediaHistory: () => BrowserMedia.MediaHistoryEntry[]
+  /**
+   * Asks all tabs to report their current media again,
+   * which is then published with the next media update.
+   */
+  requestMediaStates: () => void
+  /**
+   * Called when the receiver enabled features with its reply to the Hello
+   * message and when the session is closed, which disables all features.
+   */
+  featuresChanged: () => void
+}
+
+/**
+ * Implements the extension's side of the browser media protocol
+ * on top of an arbitrary transport.
+ */
+export class BridgeSession {
+
+  private _state: BridgeSessionState = BridgeSessionState.Connected
+  private websites: BrowserMedia.SubscribeMedia_Website[] = []
+  private publishedEmptyUpdate: boolean = false
+  private updateMode: BrowserMedia.UpdateMode = BrowserMedia.UpdateMode.FULL
+  // The most recently sent state of each media, keyed by media ID.
+  private publishedMedia: Map<string, BrowserMedia.MediaState> = new Map()
+  private snapshotInterval: NodeJS.Timeout | null = null
+  private helloReplyTimeout: NodeJS.Timeout | null = null
+  private _protocolVersion: number | null = null
+  private features: Set<BrowserMedia.Feature> = new Set()
+
+  constructor(
+    private readonly transport: IBridgeTransport,
+    private readonly options: BridgeSessionOptions,
+  ) {
+    this.transport.addMessageListener(this.#onMessage.bind(this));
+    this.transport.addDisconnectListener(this.#onDisconnect.bind(this));
+  }
+
+  get state(): BridgeSessionState { return this._state; }
+
+  /**
+   * The protocol version the receiver accepted, if it replied already.
+   */
+  get protocolVersion(): number | null { return this._protocolVersion; }
+
+  /**
+   * Whether the receiver enabled the feature and the session is still open.
+   */
+  hasFeature(feature: BrowserMedia.Feature): boolean {
+    return this._state !== BridgeSessionState.Closed && this.features.has(feature);
+  }
+
+  /**
+   * Starts the session by sending the Hello message.
+   */
+  open() {
+    if (this._state !== BridgeSessionState.Connected) {
+      console.assert(false, "The session has already been opened");
+      return;
+    }
+    this.transport.send({
+      hello: {
+        browserType: this.options.browserType,
+        supportedUpdateModes: SUPPORTED_UPDATE_MODES,
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+        supportedFeatures: SUPPORTED_FEATURES,
+      },
+    });
+    this._state = BridgeSessionState.Greeted;
+    this.helloReplyTimeout = setTimeout(
+      this.#onHelloReplyTimeout.bind(this), HELLO_REPLY_TIMEOUT);
+  }
+
+  /**
+   * Closes the session and disconnects the underlying transport.
+   */
+  close() {
+    this.#onDisconnect();
+    this.transport.disconnect();
+  }
+
+  /**
+   * Sends the given media to the receiver, if it is subscribed.
+   * Only media from websites the receiver subscribed to is sent.
+   *
+   * @param media All currently active media.
+   */
+  publish(media: BrowserMedia.MediaState[]) {
+    if (this._state !== BridgeSessionState.Subscribed) {
+      return;
+    }
+    const subscribedMedia = this.#subscribedMedia(media);
+    switch (this.updateMode) {
+      case BrowserMedia.UpdateMode.DELTA:
+        this.#sendMediaUpdateDelta(subscribedMedia);
+        break;
+      default:
+        // Changes of media the receiver is not subscribed to
+        // should not cause repeated empty updates.
+        if (subscribedMedia.length === 0 && this.publishedEmptyUpdate) {
+          return;
+        }
+        this.#sendMediaUpdate(subscribedMedia);
+        break;
+    }
+  }
+
+  #publishSnapshot() {
+    if (this._state !== BridgeSessionState.Subscribed) {
+      return;
+    }
+    this.#sendMediaUpdate(this.#subscribedMedia(this.options.currentMedia()));
+  }
+
+  #subscribedMedia(media: BrowserMedia.MediaState[]): BrowserMedia.MediaState[] {
+    const subscribedMedia = media.filter(state => this.#isSubscribed(state));
+    if (this.features.has(BrowserMedia.Feature.EMBEDDED_ARTWORK)) {
+      return subscribedMedia;
+    }
+    return subscribedMedia.map(state => ({
+      ...state,
+      images: state.images
+        .filter(image => image.url !== undefined)
+        .map(image => ({ ...image, data: undefined })),
+    }));
+  }
+
+  #sendMediaUpdate(media: BrowserMedia.MediaState[]) {
+    this.publishedEmptyUpdate = media.length === 0;
+    this.publishedMedia = new Map(media.map(state => [state.id, state]));
+    this.transport.send({
+      mediaUpdate: {
+        media,
+      },
+    });
+  }
+
+  #sendMediaUpdateDelta(media: BrowserMedia.MediaState[]) {
+    const currentMedia = new Map(media.map(state => [state.id, state]));
+    const delta: BrowserMedia.MediaUpdateDelta = {
+      added: [],
+      changed: [],
+      removed: [],
+    };
+    for (const [id, state] of currentMedia) {
+      const previousState = this.publishedMedia.get(id);
+      if (previousState === undefined) {
+        delta.added.push(state);
+      } else if (!deepEqual(previousState, state, { strict: true })) {
+        delta.changed.push(state);
+      }
+    }
+    for (const id of this.publishedMedia.keys()) {
+      if (!currentMedia.has(id)) {
+        delta.removed.push(id);
+      }
+    }
+    if (delta.added.length === 0 && delta.changed.length === 0 &&
+      delta.removed.length === 0) {
+      return;
+    }
+    this.publishedMedia = currentMedia;
+    this.transport.send({
+      mediaUpdateDelta: delta,
+    });
+  }
+
+  #startSnapshots() {
+    this.#stopSnapshots();
+    this.snapshotInterval = setInterval(
+      this.#publishSnapshot.bind(this), DELTA_SNAPSHOT_INTERVAL);
+  }
+
+  #stopSnapshots() {
+    if (this.snapshotInterval !== null) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+  }
+
+  #isSubscribed(state: BrowserMedia.MediaState): boolean {
+    const reverseDomain = state.source?.reverseDomain;
+    if (reverseDomain === undefined) {
+      return false;
+    }
+    return this.websites.some(website => ReverseDomain.matches(
+      reverseDomain, website.reverseDomain, website.includeSubdomains));
+  }
+
+  #onMessage(message: BrowserMedia.Message) {
+    if (this._state === BridgeSessionState.Closed) {
+      return;
+    }
+    if (message.helloReply !== undefined) {
+      if (this._state !== BridgeSessionState.Greeted) {
+        console.error("Received an unexpected reply to the Hello message");
+        return;
+      }
+      this.#clearHelloReplyTimeout();
+      const protocolVersion = message.helloReply.protocolVersion;
+      if (protocolVersion < MIN_PROTOCOL_VERSION || protocolVersion > PROTOCOL_VERSION) {
+        console.error("The receiver chose the unsupported protocol version",
+          protocolVersion, "supported are", MIN_PROTOCOL_VERSION, "to", PROTOCOL_VERSION);
+        this.close();
+        return;
+      }
+      this._protocolVersion = protocolVersion;
+      this.features = new Set(message.helloReply.features
+        .filter(feature => SUPPORTED_FEATURES.includes(feature)));
+      this._state = BridgeSessionState.Accepted;
+      this.options.featuresChanged();
+    }
+    else if (this._state === BridgeSessionState.Connected ||
+      this._state === BridgeSessionState.Greeted) {
+      console.error("Received a message before the reply to the Hello message", message);
+    }
+    else if (message.subscribeMedia !== undefined) {
+      let updateMode = message.subscribeMedia.updateMode;
+      if (!SUPPORTED_UPDATE_MODES.includes(updateMode)) {
+        console.error("Received a media subscription with an unsupported update mode", updateMode);
+        updateMode = BrowserMedia.UpdateMode.FULL;
+      }
+      // The most recent subscription replaces any previous one.
+      this.websites = message.subscribeMedia.websites;
+      this.updateMode = updateMode;
+      this._state = BridgeSessionState.Subscribed;
+      // Always start with the state of all subscribed media
+      // and follow up with any changes the background script missed.
+      this.#publishSnapshot();
+      this.options.requestMediaStates();
+      if (this.updateMode === BrowserMedia.UpdateMode.DELTA) {
+        this.#startSnapshots();
+      } else {
+        this.#stopSnapshots();
+      }
+    }
+    else if (message.cancelMediaSubscription !== undefined) {
+      if (this._state !== BridgeSessionState.Subscribed) {
+        console.warn("Received a subscription cancellation without an active subscription");
+        return;
+      }
+      // Keep the connection open, but stop sending any media updates.
+      this.websites = [];
+      this.publishedMedia.clear();
+      this.#stopSnapshots();
+      this._state = BridgeSessionState.Accepted;
+    }
+    else if (message.mediaCommand !== undefined) {
+      if (!this.features.has(BrowserMedia.Feature.MEDIA_COMMANDS)) {
+        console.error("Received a media command without the feature being enabled");
+        this.transport.send({
+          mediaCommandResult: {
+            commandId: message.mediaCommand.commandId,
+            ok: false,
+            handledByPage: false,
+          },
+        });
+        return;
+      }
+      this.#executeCommand(message.mediaCommand);
+    }
+    else if (message.getMediaHistory !== undefined) {
+      const websites = message.getMediaHistory.websites;
+      this.transport.send({
+        mediaHistory: {
+          entries: this.options.mediaHistory().filter(entry => {
+            const reverseDomain = entry.source?.reverseDomain;
+            return reverseDomain !== undefined && websites.some(website =>
+              ReverseDomain.matches(reverseDomain, website.reverseDomain,
+                website.includeSubdomains));
+          }),
+        },
+      });
+    }
+    else {
+      console.error("Received an unexpected protocol message", message);
+    }
+  }
+
+  async #executeCommand(command: BrowserMedia.MediaCommand) {
+    let result: BrowserMedia.MediaCommandResult;
+    try {
+      result = await this.options.executeCommand(command);
+    } catch (e) {
+      console.error("Failed to execute media command", command, e);
+      result = {
+        commandId: command.commandId,
+        ok: false,
+        handledByPage: false,
+      };
+    }
+    if (this._state === BridgeSessionState.Closed) {
+      return;
+    }
+    this.transport.send({
+      mediaCommandResult: result,
+    });
+  }
+
+  #onHelloReplyTimeout() {
+    this.helloReplyTimeout = null;
+    if (this._state !== BridgeSessionState.Greeted) {
+      return;
+    }
+    console.error("The receiver did not reply to the Hello message within",
+      HELLO_REPLY_TIMEOUT, "ms, it likely speaks a protocol version without",
+      "version negotiation, supported are", MIN_PROTOCOL_VERSION, "to", PROTOCOL_VERSION);
+    this.close();
+  }
+
+  #clearHelloReplyTimeout() {
+    if (this.helloReplyTimeout !== null) {
+      clearTimeout(this.helloReplyTimeout);
+      this.helloReplyTimeout = null;
+    }
+  }
+
+  #onDisconnect() {
+    if (this._state === BridgeSessionState.Closed) {
+      return;
+    }
+    this.#clearHelloReplyTimeout();
+    this.#stopSnapshots();
+    this._state = BridgeSessionState.Closed;
+    this.options.featuresChanged();
+  }
+}
@@ -0,0 +1,36 @@
+import { BrowserMedia } from "../proto";
+
+export type BridgeMessageCallback = (message: BrowserMedia.Message) => void;
+export type BridgeDisconnectCallback = () => void;
+
+/**
+ * Represents a connection to an external application
+ * over which protocol messages are exchanged.
+ */
+export interface IBridgeTransport {
+
+  /**
+   * Establishes the connection.
+   *
+   * @returns Whether a connection could be established.
+   */
+  connect(): Promise<boolean>
+  send(message: BrowserMedia.Message): void
+  disconnect(): void
+  addMessageListener(callback: BridgeMessageCallback): void
+  addDisconnectListener(callback: BridgeDisconnectCallback): void
+}
+
+/**
+ * The encoding of protocol messages on the wire.
+ */
+export enum BridgeMessageFormat {
+  /**
+   * Messages are encoded in the binary protobuf wire format.
+   */
+  Binary = "binary",
+  /**
+   * Messages are encoded as JSON, using the protobuf JSON mapping.
+   */
+  Json = "json",
+}
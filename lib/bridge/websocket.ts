@@ -0,0 +1,125 @@
+import { BrowserMedia } from "../proto";
+import { decodeMessage, encodeMessage } from "../proto/codec";
+import { BridgeDisconnectCallback, BridgeMessageCallback, BridgeMessageFormat, IBridgeTransport } from "./transport";
+
+/**
+ * Exchanges protocol messages with an application over a WebSocket.
+ * Outgoing messages are encoded in the configured format,
+ * incoming messages are accepted in either format:
+ * binary frames are decoded as protobuf, text frames as JSON.
+ */
+export class WebSocketTransport implements IBridgeTransport {
+
+  private socket: WebSocket | null = null
+  private connected: boolean = false
+  private messageCallbacks: BridgeMessageCallback[] = []
+  private disconnectCallbacks: BridgeDisconnectCallback[] = []
+
+  constructor(
+    private readonly url: string,
+    private readonly format: BridgeMessageFormat,
+  ) { }
+
+  connect(): Promise<boolean> {
+    if (this.socket !== null) {
+      return Promise.resolve(this.connected);
+    }
+    return new Promise(resolve => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url);
+      } catch (e) {
+        console.error("Failed to create a WebSocket for", this.url, e);
+        resolve(false);
+        return;
+      }
+      socket.binaryType = "arraybuffer";
+      this.socket = socket;
+      socket.addEventListener("open", () => {
+        this.connected = true;
+        resolve(true);
+      });
+      socket.addEventListener("message", this.#onMessage.bind(this));
+      socket.addEventListener("close", () => {
+        if (!this.connected || this.socket !== socket) {
+          // The connection could not be established or was aborted.
+          if (this.socket === socket) {
+            this.socket = null;
+          }
+          resolve(false);
+          return;
+        }
+        this.#onDisconnect();
+      });
+    });
+  }
+
+  send(message: BrowserMedia.Message): void {
+    if (this.socket === null || !this.connected) {
+      console.assert(false, "The WebSocket is not connected");
+      return;
+    }
+    switch (this.format) {
+      case BridgeMessageFormat.Binary:
+        this.socket.send(encodeMessage(message));
+        break;
+      case BridgeMessageFormat.Json:
+        this.socket.send(JSON.stringify(BrowserMedia.Message.toJSON(message)));
+        break;
+      default:
+        this.format satisfies never;
+        break;
+    }
+  }
+
+  disconnect(): void {
+    if (this.socket === null) {
+      return;
+    }
+    const socket = this.socket;
+    if (!this.connected) {
+      // Abort a pending connection attempt.
+      this.socket = null;
+      socket.close();
+      return;
+    }
+    this.#onDisconnect();
+    socket.close();
+  }
+
+  addMessageListener(callback: BridgeMessageCallback): void {
+    this.messageCallbacks.push(callback);
+  }
+
+  addDisconnectListener(callback: BridgeDisconnectCallback): void {
+    this.disconnectCallbacks.push(callback);
+  }
+
+  #onMessage(event: MessageEvent) {
+    let parsed: BrowserMedia.Message;
+    try {
+      if (event.data instanceof ArrayBuffer) {
+        parsed = decodeMessage(new Uint8Array(event.data));
+      } else {
+        parsed = BrowserMedia.Message.fromJSON(JSON.parse(event.data));
+      }
+    } catch (e) {
+      console.error("Received a malformed message over the WebSocket", event.data, e);
+      return;
+    }
+    for (const callback of this.messageCallbacks) {
+      callback(parsed);
+    }
+  }
+
+  #onDisconnect() {
+    if (this.socket === null) {
+      return;
+    }
+    this.socket = null;
+    this.connected = false;
+    for (const callback of this.disconnectCallbacks) {
+      callback();
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "vitest";
+import { CommandTargetPolicy, mostRecentMedia, selectCommandTarget } from "./commands";
+import { BrowserMedia } from "./proto";
+
+function mediaState(id: string, playing: boolean, timestamp?: number): BrowserMedia.MediaState {
+  return BrowserMedia.MediaState.fromPartial({
+    id,
+    playbackState: {
+      playing,
+      positionTimestamp: timestamp !== undefined ? new Date(timestamp) : undefined,
+    },
+  });
+}
+
+const MEDIA = [
+  mediaState("old-playing", true, 1000),
+  mediaState("new-paused", false, 3000),
+  mediaState("new-playing", true, 2000),
+  mediaState("unknown", false),
+];
+
+describe("mostRecentMedia", () => {
+
+  test("returns the media that was reported most recently", () => {
+    expect(mostRecentMedia(MEDIA)?.id).toBe("new-paused");
+  });
+
+  test("only considers media that matches the predicate", () => {
+    expect(mostRecentMedia(MEDIA, state => state.playbackState?.playing ?? false)?.id)
+      .toBe("new-playing");
+  });
+
+  test("returns the first media when no media has a timestamp", () => {
+    expect(mostRecentMedia([mediaState("a", false), mediaState("b", false)])?.id).toBe("a");
+  });
+
+  test("returns null without media", () => {
+    expect(mostRecentMedia([])).toBeNull();
+  });
+});
+
+describe("selectCommandTarget", () => {
+
+  test("prefers the media that was playing most recently", () => {
+    expect(selectCommandTarget(MEDIA, CommandTargetPolicy.LastPlaying, "unknown", "unknown")?.id)
+      .toBe("new-playing");
+  });
+
+  test("falls back to paused media when nothing is playing", () => {
+    const media = [mediaState("a", false, 1000), mediaState("b", false, 2000)];
+    expect(selectCommandTarget(media, CommandTargetPolicy.LastPlaying, null, null)?.id)
+      .toBe("b");
+  });
+
+  test("prefers the media that was controlled last", () => {
+    expect(selectCommandTarget(MEDIA, CommandTargetPolicy.LastInteracted, "unknown", null)?.id)
+      .toBe("unknown");
+  });
+
+  test("prefers the pinned media", () => {
+    expect(selectCommandTarget(MEDIA, CommandTargetPolicy.Pinned, "unknown", "old-playing")?.id)
+      .toBe("old-playing");
+  });
+
+  test("falls back when the preferred media is gone", () => {
+    expect(selectCommandTarget(MEDIA, CommandTargetPolicy.Pinned, null, "removed")?.id)
+      .toBe("new-playing");
+    expect(selectCommandTarget(MEDIA, CommandTargetPolicy.LastInteracted, null, null)?.id)
+      .toBe("new-playing");
+  });
+
+  test("returns null without media", () => {
+    expect(selectCommandTarget([], CommandTargetPolicy.Pinned, null, "removed")).toBeNull();
+  });
+});
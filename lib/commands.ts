@@ -0,0 +1,94 @@
+import { BrowserMedia } from "./proto";
+
+/**
+ * The keyboard commands that are declared in the extension manifest.
+ */
+export enum KeyboardCommand {
+  TogglePlayPause = "toggle-play-pause",
+  NextTrack = "next-track",
+  PreviousTrack = "previous-track",
+  SeekForward = "seek-forward",
+  SeekBackward = "seek-backward",
+  FocusTab = "focus-tab",
+}
+
+/**
+ * How the media that keyboard commands control is chosen.
+ */
+export enum CommandTargetPolicy {
+  /**
+   * The media that was playing most recently.
+   */
+  LastPlaying = "last_playing",
+  /**
+   * The media that was controlled most recently,
+   * e.g. with the popup or with a keyboard command.
+   */
+  LastInteracted = "last_interacted",
+  /**
+   * The media that has been pinned in the popup.
+   */
+  Pinned = "pinned",
+}
+
+/**
+ * Returns the media whose state was reported most recently,
+ * which is the same order in which media is listed in the popup.
+ *
+ * @param media All currently active media.
+ * @param predicate Only considers media for which this returns true.
+ */
+export function mostRecentMedia(
+  media: BrowserMedia.MediaState[],
+  predicate: (state: BrowserMedia.MediaState) => boolean = () => true,
+): BrowserMedia.MediaState | null {
+  let result: BrowserMedia.MediaState | null = null;
+  for (const state of media) {
+    if (!predicate(state)) {
+      continue;
+    }
+    const timestamp = state.playbackState?.positionTimestamp?.getTime() ?? 0;
+    const resultTimestamp = result?.playbackState?.positionTimestamp?.getTime() ?? 0;
+    if (result === null || timestamp > resultTimestamp) {
+      result = state;
+    }
+  }
+  return result;
+}
+
+/**
+ * Chooses the media that a keyboard command should control.
+ * Falls back to the media that was playing most recently,
+ * if there is no media that matches the policy.
+ *
+ * @param media All currently active media.
+ * @param lastInteractedMediaId The ID of the media that was controlled last.
+ * @param pinnedMediaId The ID of the media that is pinned.
+ */
+export function selectCommandTarget(
+  media: BrowserMedia.MediaState[],
+  policy: CommandTargetPolicy,
+  lastInteractedMediaId: string | null,
+  pinnedMediaId: string | null,
+): BrowserMedia.MediaState | null {
+  let preferredMediaId: string | null = null;
+  switch (policy) {
+    case CommandTargetPolicy.LastPlaying:
+      break;
+    case CommandTargetPolicy.LastInteracted:
+      preferredMediaId = lastInteractedMediaId;
+      break;
+    case CommandTargetPolicy.Pinned:
+      preferredMediaId = pinnedMediaId;
+      break;
+    default:
+      policy satisfies never;
+      break;
+  }
+  const preferredMedia = media.find(state => state.id === preferredMediaId);
+  if (preferredMedia !== undefined) {
+    return preferredMedia;
+  }
+  return mostRecentMedia(media, state => state.playbackState?.playing ?? false)
+    ?? mostRecentMedia(media);
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { ExclusivePlayback, ExclusivePlaybackAction, ExclusivePlaybackOptions } from "./exclusive-playback";
+import { BrowserMedia } from "./proto";
+
+const OPTIONS: ExclusivePlaybackOptions = {
+  enabled: true,
+  allowlist: [],
+  resume: true,
+};
+
+function mediaState(reverseDomain: string, playing: boolean): BrowserMedia.MediaState {
+  return BrowserMedia.MediaState.fromPartial({
+    source: { reverseDomain },
+    playbackState: { playing },
+  });
+}
+
+describe("ExclusivePlayback", () => {
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("pauses other media when media starts playing", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    subject.update("a", mediaState("com.example", true), OPTIONS);
+    expect(control).not.toHaveBeenCalled();
+    subject.update("b", mediaState("com.example", true), OPTIONS);
+    expect(control.mock.calls).toEqual([["a", ExclusivePlaybackAction.Pause]]);
+  });
+
+  test("does nothing when disabled", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    const options = { ...OPTIONS, enabled: false };
+    subject.update("a", mediaState("com.example", true), options);
+    subject.update("b", mediaState("com.example", true), options);
+    subject.update("b", mediaState("com.example", false), options);
+    expect(control).not.toHaveBeenCalled();
+  });
+
+  test("does not pause media of allowlisted websites and their subdomains", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    const options = { ...OPTIONS, allowlist: ["google.com"] };
+    subject.update("a", mediaState("com.google.meet", true), options);
+    subject.update("b", mediaState("com.example", true), options);
+    expect(control).not.toHaveBeenCalled();
+  });
+
+  test("resumes paused media once the media stops", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    subject.update("a", mediaState("com.example", true), OPTIONS);
+    subject.update("b", mediaState("com.example", true), OPTIONS);
+    subject.update("a", mediaState("com.example", false), OPTIONS);
+    control.mockClear();
+    subject.update("b", mediaState("com.example", false), OPTIONS);
+    expect(control.mock.calls).toEqual([["a", ExclusivePlaybackAction.Play]]);
+  });
+
+  test("does not resume paused media when resuming is disabled", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    const options = { ...OPTIONS, resume: false };
+    subject.update("a", mediaState("com.example", true), options);
+    subject.update("b", mediaState("com.example", true), options);
+    subject.update("a", mediaState("com.example", false), options);
+    control.mockClear();
+    subject.update("b", mediaState("com.example", false), options);
+    expect(control).not.toHaveBeenCalled();
+  });
+
+  test("does not resume media that is gone", () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    subject.update("a", mediaState("com.example", true), OPTIONS);
+    subject.update("b", mediaState("com.example", true), OPTIONS);
+    subject.update("a", null, OPTIONS);
+    control.mockClear();
+    subject.update("b", mediaState("com.example", false), OPTIONS);
+    expect(control).not.toHaveBeenCalled();
+  });
+
+  test("resumes paused media after a restart", async () => {
+    const control = vi.fn();
+    const subject = new ExclusivePlayback(control);
+    subject.update("a", mediaState("com.example", true), OPTIONS);
+    subject.update("b", mediaState("com.example", true), OPTIONS);
+    subject.update("a", mediaState("com.example", false), OPTIONS);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const restartedControl = vi.fn();
+    const restarted = new ExclusivePlayback(restartedControl);
+    await restarted.restore();
+    // Media that is still playing does not pause anything again.
+    restarted.update("b", mediaState("com.example", true), OPTIONS);
+    expect(restartedControl).not.toHaveBeenCalled();
+    restarted.update("b", mediaState("com.example", false), OPTIONS);
+    expect(restartedControl.mock.calls).toEqual([["a", ExclusivePlaybackAction.Play]]);
+  });
+});
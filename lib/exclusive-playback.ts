@@ -0,0 +1,160 @@
+import { BrowserMedia } from "./proto";
+import { ReverseDomain } from "./util/reverse-domain";
+import { persistedExclusivePlayback } from "./util/storage";
+
+// How long to wait for further changes before persisting the state.
+const PERSIST_DELAY = 100;
+
+export interface ExclusivePlaybackOptions {
+  /**
+   * Whether other media is paused when media starts playing.
+   */
+  enabled: boolean
+  /**
+   * Domains whose media is never paused, including their subdomains.
+   */
+  allowlist: string[]
+  /**
+   * Whether media that was paused is resumed
+   * once the media that started playing stops again.
+   */
+  resume: boolean
+}
+
+export enum ExclusivePlaybackAction {
+  Pause,
+  Play,
+}
+
+export type ExclusivePlaybackControl =
+  (mediaId: string, action: ExclusivePlaybackAction) => void;
+
+/**
+ * Pauses all other media when media starts playing,
+ * so that only one media is playing at a time.
+ * The state is persisted, so that the background script can be suspended
+ * without pausing media again or forgetting which media to resume.
+ */
+export class ExclusivePlayback {
+
+  // The reverse domain of all playing media, keyed by media ID.
+  private playing: Map<string, string> = new Map()
+  // The media that was paused when some media started playing,
+  // keyed by the ID of the media that started playing.
+  private pausedMedia: Map<string, string[]> = new Map()
+  // Media that was paused by this class and has not stopped yet.
+  private pausing: Set<string> = new Set()
+  private persistTimeout: NodeJS.Timeout | null = null
+
+  constructor(private readonly control: ExclusivePlaybackControl) { }
+
+  /**
+   * Restores the state from before the background script was suspended.
+   * Must be called before any updates are processed.
+   */
+  async restore() {
+    const persisted = await persistedExclusivePlayback.getValue();
+    this.playing = new Map(Object.entries(persisted.playing));
+    this.pausedMedia = new Map(Object.entries(persisted.pausedMedia));
+    this.pausing = new Set(persisted.pausing);
+  }
+
+  /**
+   * Processes a new state of the media with the given ID.
+   *
+   * @param state The current state of the media or null,
+   * if the media is not active anymore.
+   */
+  update(
+    mediaId: string,
+    state: BrowserMedia.MediaState | null,
+    options: ExclusivePlaybackOptions,
+  ) {
+    const wasPlaying = this.playing.has(mediaId);
+    const reverseDomain = state?.source?.reverseDomain;
+    const isPlaying = (state?.playbackState?.playing ?? false) &&
+      reverseDomain !== undefined;
+    if (isPlaying) {
+      this.playing.set(mediaId, reverseDomain!);
+    } else {
+      this.playing.delete(mediaId);
+    }
+    if (!wasPlaying && isPlaying) {
+      this.#onStarted(mediaId, options);
+    } else if (wasPlaying && !isPlaying) {
+      this.#onStopped(mediaId, options);
+    }
+    if (state === null) {
+      this.#forget(mediaId);
+    }
+    if (wasPlaying !== isPlaying || state === null) {
+      this.#persist();
+    }
+  }
+
+  #onStarted(mediaId: string, options: ExclusivePlaybackOptions) {
+    if (!options.enabled) {
+      return;
+    }
+    const allowlist = options.allowlist.map(domain => ReverseDomain.forDomain(domain));
+    const paused: string[] = [];
+    for (const [otherMediaId, reverseDomain] of this.playing) {
+      if (otherMediaId === mediaId || allowlist.some(allowed =>
+        ReverseDomain.matches(reverseDomain, allowed, true))) {
+        continue;
+      }
+      this.pausing.add(otherMediaId);
+      paused.push(otherMediaId);
+      this.control(otherMediaId, ExclusivePlaybackAction.Pause);
+    }
+    if (paused.length > 0) {
+      this.pausedMedia.set(mediaId, paused);
+    }
+  }
+
+  #onStopped(mediaId: string, options: ExclusivePlaybackOptions) {
+    const paused = this.pausedMedia.get(mediaId) ?? [];
+    this.pausedMedia.delete(mediaId);
+    if (this.pausing.delete(mediaId)) {
+      // Media that is paused for other media does not resume anything,
+      // since that would interrupt the media that is playing now.
+      return;
+    }
+    if (!options.enabled || !options.resume) {
+      return;
+    }
+    for (const pausedMediaId of paused) {
+      if (!this.playing.has(pausedMediaId)) {
+        this.control(pausedMediaId, ExclusivePlaybackAction.Play);
+      }
+    }
+  }
+
+  #forget(mediaId: string) {
+    this.pausing.delete(mediaId);
+    this.pausedMedia.delete(mediaId);
+    for (const [otherMediaId, paused] of this.pausedMedia) {
+      this.pausedMedia.set(otherMediaId, paused.filter(id => id !== mediaId));
+    }
+  }
+
+  /**
+   * Mirrors the state into session storage.
+   * Multiple changes in short succession are persisted at once.
+   */
+  #persist() {
+    if (this.persistTimeout !== null) {
+      return;
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      persistedExclusivePlayback.setValue({
+        playing: Object.fromEntries(this.playing),
+        pausedMedia: Object.fromEntries(this.pausedMedia),
+        pausing: [...this.pausing],
+      }).catch(e => {
+        console.error("Failed to persist the exclusive playback state", e);
+      });
+    }, PERSIST_DELAY);
+  }
+}
@@ -1,25 +1,43 @@
+import { PlaybackStateSource } from "./tab-media/playback-state-source";
+
 
 export enum ExtensionMessage {
   CurrentMedia = 0,
   PopoutOpened,
   PopoutClosed,
   PopoutState,
+  MediaHistory,
+  ReportMediaState,
 }
 
 export enum TabMessage {
   MediaChanged = 100,
+  MediaInteracted,
 }
 
 export enum PopupMessage {
   GetCurrentMedia = 200,
   PauseMedia,
   PlayMedia,
-  SeekStart,
+  RewindToStart,
   SeekPosition,
   NextTrack,
   OpenPopout,
   GetPopoutState,
   OpenLink,
+  GetMediaHistory,
+  PinMedia,
+  SetVolume,
+  SetPlaybackRate,
+  PreviousTrack,
+  SeekBackward,
+  SeekForward,
+  StopMedia,
+  SkipAd,
+  ToggleMicrophone,
+  ToggleCamera,
+  HangUp,
+  SeekLiveEdge,
 }
 
 export enum PopoutMessage {
@@ -31,27 +49,52 @@ export type RuntimeMessageType = ExtensionMessage | TabMessage | PopupMessage |
 export interface RuntimeMessage {
   type: RuntimeMessageType
   payload?: any
+  // The media of a frame a popup message controls, the primary one if unset.
+  mediaKey?: string
+  // Whether a popup message was sent by the extension itself and not
+  // on behalf of the user, so it does not count as an interaction.
+  automatic?: boolean
 }
 
 export interface MediaControlCapabilities {
   playPause: boolean
-  seekStart: boolean
+  rewindToStart: boolean
+  previousTrack: boolean
   skip: boolean
+  volume: boolean
+  playbackRate: boolean
+  seekLiveEdge: boolean
 }
 
-export interface MediaChangedPayload {
-  stateJson: object | null
+export interface MediaChangedEntry {
+  // Identifies the media within its frame, e.g. a single media element.
+  key: string
+  stateJson: object
   controls: MediaControlCapabilities
   metadataButtons: Set<string>
+  // Where the playback state was read from.
+  playbackStateSource: PlaybackStateSource
+}
+
+export interface MediaChangedPayload {
+  // All media of the frame, the primary media first.
+  media: MediaChangedEntry[]
+}
+
+export interface MediaInteractedPayload {
+  mediaKey: string
 }
 
 export interface TabMediaSource {
   tabId: number
   frameId: number
+  mediaKey: string
 }
 
 export interface CurrentMediaElementPayload {
   source: TabMediaSource
+  // Identifies the media until the tab or frame navigates.
+  mediaId: string
   stateJson: object
   controls: MediaControlCapabilities
   metadataButtons: Set<string>
@@ -59,6 +102,13 @@ export interface CurrentMediaElementPayload {
 
 export interface CurrentMediaPayload {
   media: CurrentMediaElementPayload[]
+  // The media that keyboard commands control with the pinned target policy.
+  pinnedMediaId: string | null
+}
+
+export interface PinMediaPayload {
+  // The media to pin or null to unpin any pinned media.
+  mediaId: string | null
 }
 
 export interface WindowSizePayload {
@@ -79,15 +129,60 @@ export interface SeekPositionPayload {
   position: number
 }
 
+export interface SetVolumePayload {
+  // The volume between 0 and 1.
+  volume: number
+  muted: boolean
+}
+
+export interface SetPlaybackRatePayload {
+  playbackRate: number
+}
+
+export interface SeekOffsetPayload {
+  // The time to seek by in seconds or undefined to let the page decide.
+  seekOffset?: number
+}
+
+export interface GetMediaHistoryPayload {
+  // The tab to return the history for, or all tabs if undefined.
+  tabId?: number
+}
+
+export interface MediaHistoryPayload {
+  tabId?: number
+  entriesJson: object[]
+}
+
+export interface MediaControlResponse {
+  // Whether the media was controlled in the requested way.
+  ok: boolean
+  // Whether a media session action handler of the page handled the request.
+  handledByPage: boolean
+}
+
 export enum MediaSessionMessage {
   ActionPlay = 0,
   ActionPause,
   ActionSeekTo,
   ActionPreviousTrack,
   ActionNextTrack,
+  ReportActions,
+  ActionSeekBackward,
+  ActionSeekForward,
+  ActionStop,
+  ActionSkipAd,
+  ActionToggleMicrophone,
+  ActionToggleCamera,
+  ActionHangUp,
+}
+
+export enum WebAudioMessage {
+  Suspend = 200,
+  Resume,
 }
 
-export type WindowMessageType = MediaSessionMessage
+export type WindowMessageType = MediaSessionMessage | WebAudioMessage
 
 export interface WindowMessage {
   id: string
@@ -104,3 +199,48 @@ export interface WindowResponseMessage {
 export interface ActionSeekToPayload {
   position: number
 }
+
+export interface ActionSeekOffsetPayload {
+  seekOffset?: number
+}
+
+// The DOM library does not know the actions for video calls yet.
+export type AnyMediaSessionAction =
+  MediaSessionAction | "togglemicrophone" | "togglecamera" | "hangup"
+
+export enum MediaSessionNotification {
+  ActionsChanged = 100,
+  PositionStateChanged,
+  MetadataChanged,
+}
+
+export enum WebAudioNotification {
+  StateChanged = 300,
+}
+
+export type WindowNotificationType = MediaSessionNotification | WebAudioNotification
+
+// Sent from the main world without a preceding window message.
+export interface WindowNotificationMessage {
+  notification: WindowNotificationType
+  payload?: any
+}
+
+export interface ActionsChangedPayload {
+  actions: AnyMediaSessionAction[]
+}
+
+export interface PositionStateChangedPayload {
+  // The position state that was passed to setPositionState(),
+  // or null if the page cleared it.
+  positionState: MediaPositionState | null
+  // The time at which the position state was set.
+  timestamp: number
+}
+
+export interface WebAudioStateChangedPayload {
+  // Whether any audio context has sources that are producing audio.
+  active: boolean
+  // Whether any of those audio contexts is running, i.e. not suspended.
+  playing: boolean
+}
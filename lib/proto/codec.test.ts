@@ -0,0 +1,58 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { describe, expect, test } from "vitest";
+import { BrowserMedia } from ".";
+import { decodeMessage, encodeMessage } from "./codec";
+
+// Golden files for each message type, as JSON and in the binary format.
+// Run with UPDATE_GOLDEN=1 to regenerate the binary files from the JSON files,
+// after an intentional change of the protocol definition.
+const FIXTURES = new URL("./fixtures/", import.meta.url);
+
+// Every message type that can be sent, named after its field in Message.
+const MESSAGE_TYPES = Object.keys(BrowserMedia.Message.fromJSON({}))
+  .map(field => field.replace(/[A-Z]/g, c => "_" + c.toLowerCase()));
+
+function readJson(name: string): unknown {
+  return JSON.parse(readFileSync(new URL(`${name}.json`, FIXTURES), "utf-8"));
+}
+
+function readBinary(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`${name}.bin`, FIXTURES)));
+}
+
+if (process.env.UPDATE_GOLDEN) {
+  for (const name of MESSAGE_TYPES) {
+    const message = BrowserMedia.Message.fromJSON(readJson(name));
+    writeFileSync(new URL(`${name}.bin`, FIXTURES), encodeMessage(message));
+  }
+}
+
+test("there is a fixture for every message type", () => {
+  expect(MESSAGE_TYPES).toHaveLength(10);
+  for (const name of MESSAGE_TYPES) {
+    expect(Object.keys(readJson(name) as object)).toEqual([name]);
+  }
+});
+
+describe.each(MESSAGE_TYPES)("%s", name => {
+
+  test("decodes the binary fixture to the JSON fixture", () => {
+    const message = decodeMessage(readBinary(name));
+    expect(BrowserMedia.Message.toJSON(message)).toEqual(readJson(name));
+  });
+
+  test("encodes the JSON fixture to the binary fixture", () => {
+    const message = BrowserMedia.Message.fromJSON(readJson(name));
+    expect(new Uint8Array(encodeMessage(message))).toEqual(readBinary(name));
+  });
+
+  test("round-trips the binary format", () => {
+    const bytes = readBinary(name);
+    expect(new Uint8Array(encodeMessage(decodeMessage(bytes)))).toEqual(bytes);
+  });
+
+  test("round-trips the JSON format", () => {
+    const json = readJson(name);
+    expect(BrowserMedia.Message.toJSON(BrowserMedia.Message.fromJSON(json))).toEqual(json);
+  });
+});
@@ -0,0 +1,24 @@
+import * as BrowserMediaCodec from './gen-codec/browser-media';
+import * as BrowserMedia from './gen/browser-media';
+
+// The binary codec pulls in protobufjs, which would bloat the content scripts
+// that import the message types, so it is generated into a separate module
+// that only the background script imports. Both are generated from the same
+// definitions with the same JSON options, so messages are converted via JSON.
+
+/**
+ * Encodes a message in the protobuf binary format.
+ */
+export function encodeMessage(message: BrowserMedia.Message): Uint8Array {
+  return BrowserMediaCodec.Message.encode(
+    BrowserMediaCodec.Message.fromJSON(BrowserMedia.Message.toJSON(message))
+  ).finish();
+}
+
+/**
+ * Decodes a message from the protobuf binary format.
+ */
+export function decodeMessage(data: Uint8Array): BrowserMedia.Message {
+  return BrowserMedia.Message.fromJSON(
+    BrowserMediaCodec.Message.toJSON(BrowserMediaCodec.Message.decode(data)));
+}
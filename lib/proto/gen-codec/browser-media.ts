@@ -0,0 +1,3244 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v1.181.2
+//   protoc               v5.27.0
+// source: browser-media.proto
+
+/* eslint-disable */
+import _m0 from "protobufjs/minimal";
+import { Timestamp } from "./google/protobuf/timestamp";
+
+export const protobufPackage = "app.musicpresence.browsermedia";
+
+/** Browsers that are supported. */
+export enum BrowserType {
+  UNSPECIFIED = 0,
+  /** GENERIC - Any generic browser that is not one of the below ones. */
+  GENERIC = 1,
+  /** CHROMIUM - Major browser flavours */
+  CHROMIUM = 2,
+  FIREFOX = 3,
+  SAFARI = 4,
+  /** CHROMIUM_CHROME - Chromium variations */
+  CHROMIUM_CHROME = 5,
+  CHROMIUM_OPERA = 6,
+  CHROMIUM_BRAVE = 7,
+  CHROMIUM_EDGE = 8,
+  UNRECOGNIZED = -1,
+}
+
+export function browserTypeFromJSON(object: any): BrowserType {
+  switch (object) {
+    case 0:
+    case "BROWSER_TYPE_UNSPECIFIED":
+      return BrowserType.UNSPECIFIED;
+    case 1:
+    case "BROWSER_TYPE_GENERIC":
+      return BrowserType.GENERIC;
+    case 2:
+    case "BROWSER_TYPE_CHROMIUM":
+      return BrowserType.CHROMIUM;
+    case 3:
+    case "BROWSER_TYPE_FIREFOX":
+      return BrowserType.FIREFOX;
+    case 4:
+    case "BROWSER_TYPE_SAFARI":
+      return BrowserType.SAFARI;
+    case 5:
+    case "BROWSER_TYPE_CHROMIUM_CHROME":
+      return BrowserType.CHROMIUM_CHROME;
+    case 6:
+    case "BROWSER_TYPE_CHROMIUM_OPERA":
+      return BrowserType.CHROMIUM_OPERA;
+    case 7:
+    case "BROWSER_TYPE_CHROMIUM_BRAVE":
+      return BrowserType.CHROMIUM_BRAVE;
+    case 8:
+    case "BROWSER_TYPE_CHROMIUM_EDGE":
+      return BrowserType.CHROMIUM_EDGE;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return BrowserType.UNRECOGNIZED;
+  }
+}
+
+export function browserTypeToJSON(object: BrowserType): string {
+  switch (object) {
+    case BrowserType.UNSPECIFIED:
+      return "BROWSER_TYPE_UNSPECIFIED";
+    case BrowserType.GENERIC:
+      return "BROWSER_TYPE_GENERIC";
+    case BrowserType.CHROMIUM:
+      return "BROWSER_TYPE_CHROMIUM";
+    case BrowserType.FIREFOX:
+      return "BROWSER_TYPE_FIREFOX";
+    case BrowserType.SAFARI:
+      return "BROWSER_TYPE_SAFARI";
+    case BrowserType.CHROMIUM_CHROME:
+      return "BROWSER_TYPE_CHROMIUM_CHROME";
+    case BrowserType.CHROMIUM_OPERA:
+      return "BROWSER_TYPE_CHROMIUM_OPERA";
+    case BrowserType.CHROMIUM_BRAVE:
+      return "BROWSER_TYPE_CHROMIUM_BRAVE";
+    case BrowserType.CHROMIUM_EDGE:
+      return "BROWSER_TYPE_CHROMIUM_EDGE";
+    case BrowserType.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** How media updates are sent after subscribing. */
+export enum UpdateMode {
+  /** FULL - Every MediaUpdate contains the state of all subscribed media. */
+  FULL = 0,
+  /**
+   * DELTA - A MediaUpdate is sent right after subscribing and periodically after that
+   * to resynchronize, and MediaUpdateDelta messages are sent in between.
+   */
+  DELTA = 1,
+  UNRECOGNIZED = -1,
+}
+
+export function updateModeFromJSON(object: any): UpdateMode {
+  switch (object) {
+    case 0:
+    case "UPDATE_MODE_FULL":
+      return UpdateMode.FULL;
+    case 1:
+    case "UPDATE_MODE_DELTA":
+      return UpdateMode.DELTA;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return UpdateMode.UNRECOGNIZED;
+  }
+}
+
+export function updateModeToJSON(object: UpdateMode): string {
+  switch (object) {
+    case UpdateMode.FULL:
+      return "UPDATE_MODE_FULL";
+    case UpdateMode.DELTA:
+      return "UPDATE_MODE_DELTA";
+    case UpdateMode.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** Optional parts of the protocol that the receiver has to enable explicitly. */
+export enum Feature {
+  UNSPECIFIED = 0,
+  /** MEDIA_COMMANDS - The receiver may send MediaCommand messages. */
+  MEDIA_COMMANDS = 1,
+  /**
+   * EMBEDDED_ARTWORK - Images of media may contain embedded image data next to or instead of
+   * a URL. Without this feature the image data is removed
+   * and images without a URL are omitted.
+   */
+  EMBEDDED_ARTWORK = 2,
+  UNRECOGNIZED = -1,
+}
+
+export function featureFromJSON(object: any): Feature {
+  switch (object) {
+    case 0:
+    case "FEATURE_UNSPECIFIED":
+      return Feature.UNSPECIFIED;
+    case 1:
+    case "FEATURE_MEDIA_COMMANDS":
+      return Feature.MEDIA_COMMANDS;
+    case 2:
+    case "FEATURE_EMBEDDED_ARTWORK":
+      return Feature.EMBEDDED_ARTWORK;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return Feature.UNRECOGNIZED;
+  }
+}
+
+export function featureToJSON(object: Feature): string {
+  switch (object) {
+    case Feature.UNSPECIFIED:
+      return "FEATURE_UNSPECIFIED";
+    case Feature.MEDIA_COMMANDS:
+      return "FEATURE_MEDIA_COMMANDS";
+    case Feature.EMBEDDED_ARTWORK:
+      return "FEATURE_EMBEDDED_ARTWORK";
+    case Feature.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** Represents the current state of some active media. */
+export interface MediaState {
+  source: MediaState_Source | undefined;
+  metadata: MediaState_Metadata | undefined;
+  playbackState: MediaState_PlaybackState | undefined;
+  resourceLinks: MediaState_ResourceLinks | undefined;
+  images: MediaState_Image[];
+  /**
+   * Identifies the media across media updates,
+   * so that it can be referred to in a MediaCommand.
+   * The ID stays the same when the track changes
+   * and changes when the page that plays the media navigates.
+   * It is only valid for as long as the extension is running.
+   */
+  id: string;
+  capabilities:
+    | MediaState_Capabilities
+    | undefined;
+  /**
+   * The volume of the media element that plays the media, if there is one.
+   * This is independent of the volume of the browser tab.
+   */
+  volume: MediaState_Volume | undefined;
+}
+
+export interface MediaState_Source {
+  /**
+   * The domain name of the media source in reverse domain name notation.
+   * This reverse domain may never end with ".www",
+   * as it makes the reverse domain name only more ambiguous.
+   */
+  reverseDomain: string;
+  /** The exact URL of the page that is playing the media. */
+  siteUrl: string;
+  /** The URL to the favicon of the web page. */
+  faviconUrl?: string | undefined;
+}
+
+export interface MediaState_Metadata {
+  title: string;
+  artist?: string | undefined;
+  album?:
+    | string
+    | undefined;
+  /**
+   * The length of the media in seconds.
+   * This is optional, as it might not be possible
+   * to determine the duration every time.
+   */
+  duration?: number | undefined;
+}
+
+export interface MediaState_PlaybackState {
+  /** Playback position in seconds. */
+  position: number;
+  /**
+   * The timestamp at which the position was valid.
+   * Allows to calculate the correct for any point in time,
+   * in case the media is playing and the position is advancing.
+   */
+  positionTimestamp:
+    | Date
+    | undefined;
+  /** Whether the media is currently playing. */
+  playing: boolean;
+  /**
+   * The playback speed, where 1 is the normal speed.
+   * Only set if it can be determined.
+   */
+  playbackRate?:
+    | number
+    | undefined;
+  /** Whether the media is a live stream, which has no duration. */
+  live: boolean;
+  /**
+   * The range within which a live stream can be seeked,
+   * as it was at the position timestamp. The end is the live edge.
+   * Only set for live streams, if the range can be determined.
+   */
+  seekableRange: MediaState_TimeRange | undefined;
+}
+
+/** A range of playback positions. */
+export interface MediaState_TimeRange {
+  /** The start of the range in seconds. */
+  start: number;
+  /** The end of the range in seconds. */
+  end: number;
+}
+
+export interface MediaState_Volume {
+  /** The volume between 0 and 1. */
+  level: number;
+  muted: boolean;
+}
+
+export interface MediaState_Image {
+  /**
+   * At least one of the URL and the image data is set.
+   * URLs that only exist within the page, like blob: URLs, are omitted
+   * once the image data is embedded.
+   */
+  url?:
+    | string
+    | undefined;
+  /** The embedded image data, only with FEATURE_EMBEDDED_ARTWORK. */
+  data?: Uint8Array | undefined;
+  mimeType?: string | undefined;
+  width?: number | undefined;
+  height?: number | undefined;
+}
+
+/** Which controls are available for the media. */
+export interface MediaState_Capabilities {
+  /** Whether the media can be played and paused. */
+  playPause: boolean;
+  /** Whether the media can be rewound to the start. */
+  seekStart: boolean;
+  /** Whether the media can be skipped. */
+  skip: boolean;
+  /**
+   * The media session actions for which the page registered a handler,
+   * e.g. "play", "pause", "seekto", "previoustrack" or "nexttrack".
+   */
+  mediaSessionActions: string[];
+  /** Whether the volume of the media can be changed. */
+  volume: boolean;
+  /** Whether the playback speed of the media can be changed. */
+  playbackRate: boolean;
+  /** Whether the page can skip to the previous track. */
+  previousTrack: boolean;
+}
+
+export interface MediaState_ResourceLinks {
+  trackUrl: { [key: string]: string };
+  albumUrl: { [key: string]: string };
+  artistUrl: { [key: string]: string };
+}
+
+export interface MediaState_ResourceLinks_TrackUrlEntry {
+  key: string;
+  value: string;
+}
+
+export interface MediaState_ResourceLinks_AlbumUrlEntry {
+  key: string;
+  value: string;
+}
+
+export interface MediaState_ResourceLinks_ArtistUrlEntry {
+  key: string;
+  value: string;
+}
+
+/** A track that was played recently. */
+export interface MediaHistoryEntry {
+  /** The ID of the media that played the track, as in MediaState. */
+  mediaId: string;
+  source: MediaState_Source | undefined;
+  metadata: MediaState_Metadata | undefined;
+  resourceLinks:
+    | MediaState_ResourceLinks
+    | undefined;
+  /** When the track started playing. */
+  startTime:
+    | Date
+    | undefined;
+  /** How long the track has been playing in seconds, excluding pauses. */
+  playedDuration: number;
+}
+
+/**
+ * The browser extension connects to the desktop application.
+ * The Hello message must be the first message that is sent by the extension.
+ * The extension communicates the browser type it is running in,
+ * so that the receiver can associate it with the appropriate media
+ * that is detected via system APIs.
+ * It also lists the update modes the extension supports,
+ * from which the receiver chooses one in SubscribeMedia.
+ * The receiver chooses a protocol version within the given range
+ * and the features to enable from the supported ones in HelloReply.
+ */
+export interface Hello {
+  browserType: BrowserType;
+  supportedUpdateModes: UpdateMode[];
+  /** The newest protocol version the extension supports. */
+  protocolVersion: number;
+  /** The oldest protocol version the extension supports. */
+  minProtocolVersion: number;
+  supportedFeatures: Feature[];
+}
+
+/**
+ * The receiver accepts the Hello message.
+ * If the receiver cannot use any of the offered protocol versions,
+ * it closes the connection instead.
+ * The extension closes the connection if the accepted protocol version
+ * is not within the range it offered.
+ */
+export interface HelloReply {
+  /** The protocol version that is used for the rest of the connection. */
+  protocolVersion: number;
+  /**
+   * The features to enable, out of the ones the extension supports.
+   * Unsupported features are ignored.
+   */
+  features: Feature[];
+}
+
+/**
+ * After the browser extension sent the Hello message,
+ * the desktop application can subscribe to live media updates.
+ * This message is allowed to be sent multiple times.
+ * When it is sent again the subscription is changed to the media sources
+ * that were listed in the most recent message.
+ * The contents of older messages will be discarded.
+ */
+export interface SubscribeMedia {
+  websites: SubscribeMedia_Website[];
+  /** Must be one of the update modes that are listed in the Hello message. */
+  updateMode: UpdateMode;
+}
+
+export interface SubscribeMedia_Website {
+  /**
+   * Which websites to observe for live media changes.
+   * Uses the same reverse domain name notation as in MediaState.Source.
+   */
+  reverseDomain: string;
+  /**
+   * Whether media from subdomains of the website should be included too.
+   * E.g. "com.youtube" would then also include "com.youtube.music".
+   */
+  includeSubdomains: boolean;
+}
+
+/**
+ * Cancels any active subscription to live media updates
+ * that have been registered via previous SubscribeMedia messages.
+ * Future MediaUpdate messages will be ignored by the receiver.
+ * This is useful for temporarily or permanently pausing live media updates
+ * instead of closing the entire connection.
+ */
+export interface CancelMediaSubscription {
+}
+
+/**
+ * Sends an update about the current state of active media in the browser.
+ * Any subsequent message replaces states from all previous messages.
+ */
+export interface MediaUpdate {
+  media: MediaState[];
+}
+
+/**
+ * Sends the changes since the previous MediaUpdate or MediaUpdateDelta,
+ * keyed by the ID of each media state.
+ */
+export interface MediaUpdateDelta {
+  /** Media that was not part of the previous update. */
+  added: MediaState[];
+  /** The complete new state of media whose state changed. */
+  changed: MediaState[];
+  /** The IDs of media that is not active anymore. */
+  removed: string[];
+}
+
+/**
+ * Controls the playback of specific media.
+ * Media session action handlers that are registered by the web page
+ * are preferred and the media element is controlled otherwise.
+ */
+export interface MediaCommand {
+  /** Chosen by the sender and repeated in the respective MediaCommandResult. */
+  commandId: number;
+  /** The ID of the media to control, as in MediaState. */
+  mediaId: string;
+  action: MediaCommand_Action;
+  /** The playback position to seek to in seconds, for ACTION_SEEK_POSITION. */
+  position?: number | undefined;
+}
+
+export enum MediaCommand_Action {
+  UNSPECIFIED = 0,
+  PLAY = 1,
+  PAUSE = 2,
+  /** SEEK_START - Rewinds to the start of the media. */
+  SEEK_START = 3,
+  /** SEEK_POSITION - Seeks to the position in the position field. */
+  SEEK_POSITION = 4,
+  NEXT_TRACK = 5,
+  /** PREVIOUS_TRACK - Skips to the previous track, if the page supports it. */
+  PREVIOUS_TRACK = 6,
+  UNRECOGNIZED = -1,
+}
+
+export function mediaCommand_ActionFromJSON(object: any): MediaCommand_Action {
+  switch (object) {
+    case 0:
+    case "ACTION_UNSPECIFIED":
+      return MediaCommand_Action.UNSPECIFIED;
+    case 1:
+    case "ACTION_PLAY":
+      return MediaCommand_Action.PLAY;
+    case 2:
+    case "ACTION_PAUSE":
+      return MediaCommand_Action.PAUSE;
+    case 3:
+    case "ACTION_SEEK_START":
+      return MediaCommand_Action.SEEK_START;
+    case 4:
+    case "ACTION_SEEK_POSITION":
+      return MediaCommand_Action.SEEK_POSITION;
+    case 5:
+    case "ACTION_NEXT_TRACK":
+      return MediaCommand_Action.NEXT_TRACK;
+    case 6:
+    case "ACTION_PREVIOUS_TRACK":
+      return MediaCommand_Action.PREVIOUS_TRACK;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return MediaCommand_Action.UNRECOGNIZED;
+  }
+}
+
+export function mediaCommand_ActionToJSON(object: MediaCommand_Action): string {
+  switch (object) {
+    case MediaCommand_Action.UNSPECIFIED:
+      return "ACTION_UNSPECIFIED";
+    case MediaCommand_Action.PLAY:
+      return "ACTION_PLAY";
+    case MediaCommand_Action.PAUSE:
+      return "ACTION_PAUSE";
+    case MediaCommand_Action.SEEK_START:
+      return "ACTION_SEEK_START";
+    case MediaCommand_Action.SEEK_POSITION:
+      return "ACTION_SEEK_POSITION";
+    case MediaCommand_Action.NEXT_TRACK:
+      return "ACTION_NEXT_TRACK";
+    case MediaCommand_Action.PREVIOUS_TRACK:
+      return "ACTION_PREVIOUS_TRACK";
+    case MediaCommand_Action.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** Acknowledges a MediaCommand. */
+export interface MediaCommandResult {
+  /** The command_id of the acknowledged MediaCommand. */
+  commandId: number;
+  /**
+   * Whether the command was carried out.
+   * This is false if the media does not exist (anymore)
+   * or if it cannot be controlled in the requested way.
+   */
+  ok: boolean;
+  /**
+   * Whether the command was handled by a media session action handler
+   * that was registered by the web page.
+   */
+  handledByPage: boolean;
+}
+
+/**
+ * Requests the most recently played tracks,
+ * e.g. to backfill tracks that were played while the receiver was not connected.
+ */
+export interface GetMediaHistory {
+  /** Only tracks from these websites are returned. */
+  websites: SubscribeMedia_Website[];
+}
+
+/**
+ * Replies to GetMediaHistory with the tracks that were played recently,
+ * ordered from the least to the most recently started track.
+ * The track that is currently playing is included.
+ * The history only covers the time the extension has been running.
+ */
+export interface MediaHistory {
+  entries: MediaHistoryEntry[];
+}
+
+/** Wrapper */
+export interface Message {
+  hello?: Hello | undefined;
+  subscribeMedia?: SubscribeMedia | undefined;
+  cancelMediaSubscription?: CancelMediaSubscription | undefined;
+  mediaUpdate?: MediaUpdate | undefined;
+  mediaCommand?: MediaCommand | undefined;
+  mediaCommandResult?: MediaCommandResult | undefined;
+  mediaUpdateDelta?: MediaUpdateDelta | undefined;
+  helloReply?: HelloReply | undefined;
+  getMediaHistory?: GetMediaHistory | undefined;
+  mediaHistory?: MediaHistory | undefined;
+}
+
+function createBaseMediaState(): MediaState {
+  return {
+    source: undefined,
+    metadata: undefined,
+    playbackState: undefined,
+    resourceLinks: undefined,
+    images: [],
+    id: "",
+    capabilities: undefined,
+    volume: undefined,
+  };
+}
+
+export const MediaState = {
+  encode(message: MediaState, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.source !== undefined) {
+      MediaState_Source.encode(message.source, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.metadata !== undefined) {
+      MediaState_Metadata.encode(message.metadata, writer.uint32(18).fork()).ldelim();
+    }
+    if (message.playbackState !== undefined) {
+      MediaState_PlaybackState.encode(message.playbackState, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.resourceLinks !== undefined) {
+      MediaState_ResourceLinks.encode(message.resourceLinks, writer.uint32(34).fork()).ldelim();
+    }
+    for (const v of message.images) {
+      MediaState_Image.encode(v!, writer.uint32(42).fork()).ldelim();
+    }
+    if (message.id !== "") {
+      writer.uint32(50).string(message.id);
+    }
+    if (message.capabilities !== undefined) {
+      MediaState_Capabilities.encode(message.capabilities, writer.uint32(58).fork()).ldelim();
+    }
+    if (message.volume !== undefined) {
+      MediaState_Volume.encode(message.volume, writer.uint32(66).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.source = MediaState_Source.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.metadata = MediaState_Metadata.decode(reader, reader.uint32());
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.playbackState = MediaState_PlaybackState.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.resourceLinks = MediaState_ResourceLinks.decode(reader, reader.uint32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.images.push(MediaState_Image.decode(reader, reader.uint32()));
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.id = reader.string();
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.capabilities = MediaState_Capabilities.decode(reader, reader.uint32());
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.volume = MediaState_Volume.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState {
+    return {
+      source: isSet(object.source) ? MediaState_Source.fromJSON(object.source) : undefined,
+      metadata: isSet(object.metadata) ? MediaState_Metadata.fromJSON(object.metadata) : undefined,
+      playbackState: isSet(object.playback_state)
+        ? MediaState_PlaybackState.fromJSON(object.playback_state)
+        : undefined,
+      resourceLinks: isSet(object.resource_links)
+        ? MediaState_ResourceLinks.fromJSON(object.resource_links)
+        : undefined,
+      images: globalThis.Array.isArray(object?.images)
+        ? object.images.map((e: any) => MediaState_Image.fromJSON(e))
+        : [],
+      id: isSet(object.id) ? globalThis.String(object.id) : "",
+      capabilities: isSet(object.capabilities) ? MediaState_Capabilities.fromJSON(object.capabilities) : undefined,
+      volume: isSet(object.volume) ? MediaState_Volume.fromJSON(object.volume) : undefined,
+    };
+  },
+
+  toJSON(message: MediaState): unknown {
+    const obj: any = {};
+    if (message.source !== undefined) {
+      obj.source = MediaState_Source.toJSON(message.source);
+    }
+    if (message.metadata !== undefined) {
+      obj.metadata = MediaState_Metadata.toJSON(message.metadata);
+    }
+    if (message.playbackState !== undefined) {
+      obj.playback_state = MediaState_PlaybackState.toJSON(message.playbackState);
+    }
+    if (message.resourceLinks !== undefined) {
+      obj.resource_links = MediaState_ResourceLinks.toJSON(message.resourceLinks);
+    }
+    if (message.images?.length) {
+      obj.images = message.images.map((e) => MediaState_Image.toJSON(e));
+    }
+    if (message.id !== "") {
+      obj.id = message.id;
+    }
+    if (message.capabilities !== undefined) {
+      obj.capabilities = MediaState_Capabilities.toJSON(message.capabilities);
+    }
+    if (message.volume !== undefined) {
+      obj.volume = MediaState_Volume.toJSON(message.volume);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState>, I>>(base?: I): MediaState {
+    return MediaState.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState>, I>>(object: I): MediaState {
+    const message = createBaseMediaState();
+    message.source = (object.source !== undefined && object.source !== null)
+      ? MediaState_Source.fromPartial(object.source)
+      : undefined;
+    message.metadata = (object.metadata !== undefined && object.metadata !== null)
+      ? MediaState_Metadata.fromPartial(object.metadata)
+      : undefined;
+    message.playbackState = (object.playbackState !== undefined && object.playbackState !== null)
+      ? MediaState_PlaybackState.fromPartial(object.playbackState)
+      : undefined;
+    message.resourceLinks = (object.resourceLinks !== undefined && object.resourceLinks !== null)
+      ? MediaState_ResourceLinks.fromPartial(object.resourceLinks)
+      : undefined;
+    message.images = object.images?.map((e) => MediaState_Image.fromPartial(e)) || [];
+    message.id = object.id ?? "";
+    message.capabilities = (object.capabilities !== undefined && object.capabilities !== null)
+      ? MediaState_Capabilities.fromPartial(object.capabilities)
+      : undefined;
+    message.volume = (object.volume !== undefined && object.volume !== null)
+      ? MediaState_Volume.fromPartial(object.volume)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_Source(): MediaState_Source {
+  return { reverseDomain: "", siteUrl: "", faviconUrl: undefined };
+}
+
+export const MediaState_Source = {
+  encode(message: MediaState_Source, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.reverseDomain !== "") {
+      writer.uint32(10).string(message.reverseDomain);
+    }
+    if (message.siteUrl !== "") {
+      writer.uint32(18).string(message.siteUrl);
+    }
+    if (message.faviconUrl !== undefined) {
+      writer.uint32(26).string(message.faviconUrl);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_Source {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_Source();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.reverseDomain = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.siteUrl = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.faviconUrl = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_Source {
+    return {
+      reverseDomain: isSet(object.reverse_domain) ? globalThis.String(object.reverse_domain) : "",
+      siteUrl: isSet(object.site_url) ? globalThis.String(object.site_url) : "",
+      faviconUrl: isSet(object.favicon_url) ? globalThis.String(object.favicon_url) : undefined,
+    };
+  },
+
+  toJSON(message: MediaState_Source): unknown {
+    const obj: any = {};
+    if (message.reverseDomain !== "") {
+      obj.reverse_domain = message.reverseDomain;
+    }
+    if (message.siteUrl !== "") {
+      obj.site_url = message.siteUrl;
+    }
+    if (message.faviconUrl !== undefined) {
+      obj.favicon_url = message.faviconUrl;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Source>, I>>(base?: I): MediaState_Source {
+    return MediaState_Source.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Source>, I>>(object: I): MediaState_Source {
+    const message = createBaseMediaState_Source();
+    message.reverseDomain = object.reverseDomain ?? "";
+    message.siteUrl = object.siteUrl ?? "";
+    message.faviconUrl = object.faviconUrl ?? undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_Metadata(): MediaState_Metadata {
+  return { title: "", artist: undefined, album: undefined, duration: undefined };
+}
+
+export const MediaState_Metadata = {
+  encode(message: MediaState_Metadata, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.title !== "") {
+      writer.uint32(10).string(message.title);
+    }
+    if (message.artist !== undefined) {
+      writer.uint32(18).string(message.artist);
+    }
+    if (message.album !== undefined) {
+      writer.uint32(26).string(message.album);
+    }
+    if (message.duration !== undefined) {
+      writer.uint32(33).double(message.duration);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_Metadata {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_Metadata();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.title = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.artist = reader.string();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.album = reader.string();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.duration = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_Metadata {
+    return {
+      title: isSet(object.title) ? globalThis.String(object.title) : "",
+      artist: isSet(object.artist) ? globalThis.String(object.artist) : undefined,
+      album: isSet(object.album) ? globalThis.String(object.album) : undefined,
+      duration: isSet(object.duration) ? globalThis.Number(object.duration) : undefined,
+    };
+  },
+
+  toJSON(message: MediaState_Metadata): unknown {
+    const obj: any = {};
+    if (message.title !== "") {
+      obj.title = message.title;
+    }
+    if (message.artist !== undefined) {
+      obj.artist = message.artist;
+    }
+    if (message.album !== undefined) {
+      obj.album = message.album;
+    }
+    if (message.duration !== undefined) {
+      obj.duration = message.duration;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Metadata>, I>>(base?: I): MediaState_Metadata {
+    return MediaState_Metadata.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Metadata>, I>>(object: I): MediaState_Metadata {
+    const message = createBaseMediaState_Metadata();
+    message.title = object.title ?? "";
+    message.artist = object.artist ?? undefined;
+    message.album = object.album ?? undefined;
+    message.duration = object.duration ?? undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_PlaybackState(): MediaState_PlaybackState {
+  return {
+    position: 0,
+    positionTimestamp: undefined,
+    playing: false,
+    playbackRate: undefined,
+    live: false,
+    seekableRange: undefined,
+  };
+}
+
+export const MediaState_PlaybackState = {
+  encode(message: MediaState_PlaybackState, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.position !== 0) {
+      writer.uint32(9).double(message.position);
+    }
+    if (message.positionTimestamp !== undefined) {
+      Timestamp.encode(toTimestamp(message.positionTimestamp), writer.uint32(18).fork()).ldelim();
+    }
+    if (message.playing !== false) {
+      writer.uint32(24).bool(message.playing);
+    }
+    if (message.playbackRate !== undefined) {
+      writer.uint32(33).double(message.playbackRate);
+    }
+    if (message.live !== false) {
+      writer.uint32(40).bool(message.live);
+    }
+    if (message.seekableRange !== undefined) {
+      MediaState_TimeRange.encode(message.seekableRange, writer.uint32(50).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_PlaybackState {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_PlaybackState();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.position = reader.double();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.positionTimestamp = fromTimestamp(Timestamp.decode(reader, reader.uint32()));
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.playing = reader.bool();
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.playbackRate = reader.double();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.live = reader.bool();
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.seekableRange = MediaState_TimeRange.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_PlaybackState {
+    return {
+      position: isSet(object.position) ? globalThis.Number(object.position) : 0,
+      positionTimestamp: isSet(object.position_timestamp) ? fromJsonTimestamp(object.position_timestamp) : undefined,
+      playing: isSet(object.playing) ? globalThis.Boolean(object.playing) : false,
+      playbackRate: isSet(object.playback_rate) ? globalThis.Number(object.playback_rate) : undefined,
+      live: isSet(object.live) ? globalThis.Boolean(object.live) : false,
+      seekableRange: isSet(object.seekable_range) ? MediaState_TimeRange.fromJSON(object.seekable_range) : undefined,
+    };
+  },
+
+  toJSON(message: MediaState_PlaybackState): unknown {
+    const obj: any = {};
+    if (message.position !== 0) {
+      obj.position = message.position;
+    }
+    if (message.positionTimestamp !== undefined) {
+      obj.position_timestamp = message.positionTimestamp.toISOString();
+    }
+    if (message.playing !== false) {
+      obj.playing = message.playing;
+    }
+    if (message.playbackRate !== undefined) {
+      obj.playback_rate = message.playbackRate;
+    }
+    if (message.live !== false) {
+      obj.live = message.live;
+    }
+    if (message.seekableRange !== undefined) {
+      obj.seekable_range = MediaState_TimeRange.toJSON(message.seekableRange);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_PlaybackState>, I>>(base?: I): MediaState_PlaybackState {
+    return MediaState_PlaybackState.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_PlaybackState>, I>>(object: I): MediaState_PlaybackState {
+    const message = createBaseMediaState_PlaybackState();
+    message.position = object.position ?? 0;
+    message.positionTimestamp = object.positionTimestamp ?? undefined;
+    message.playing = object.playing ?? false;
+    message.playbackRate = object.playbackRate ?? undefined;
+    message.live = object.live ?? false;
+    message.seekableRange = (object.seekableRange !== undefined && object.seekableRange !== null)
+      ? MediaState_TimeRange.fromPartial(object.seekableRange)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_TimeRange(): MediaState_TimeRange {
+  return { start: 0, end: 0 };
+}
+
+export const MediaState_TimeRange = {
+  encode(message: MediaState_TimeRange, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.start !== 0) {
+      writer.uint32(9).double(message.start);
+    }
+    if (message.end !== 0) {
+      writer.uint32(17).double(message.end);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_TimeRange {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_TimeRange();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.start = reader.double();
+          continue;
+        case 2:
+          if (tag !== 17) {
+            break;
+          }
+
+          message.end = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_TimeRange {
+    return {
+      start: isSet(object.start) ? globalThis.Number(object.start) : 0,
+      end: isSet(object.end) ? globalThis.Number(object.end) : 0,
+    };
+  },
+
+  toJSON(message: MediaState_TimeRange): unknown {
+    const obj: any = {};
+    if (message.start !== 0) {
+      obj.start = message.start;
+    }
+    if (message.end !== 0) {
+      obj.end = message.end;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_TimeRange>, I>>(base?: I): MediaState_TimeRange {
+    return MediaState_TimeRange.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_TimeRange>, I>>(object: I): MediaState_TimeRange {
+    const message = createBaseMediaState_TimeRange();
+    message.start = object.start ?? 0;
+    message.end = object.end ?? 0;
+    return message;
+  },
+};
+
+function createBaseMediaState_Volume(): MediaState_Volume {
+  return { level: 0, muted: false };
+}
+
+export const MediaState_Volume = {
+  encode(message: MediaState_Volume, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.level !== 0) {
+      writer.uint32(9).double(message.level);
+    }
+    if (message.muted !== false) {
+      writer.uint32(16).bool(message.muted);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_Volume {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_Volume();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 9) {
+            break;
+          }
+
+          message.level = reader.double();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.muted = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_Volume {
+    return {
+      level: isSet(object.level) ? globalThis.Number(object.level) : 0,
+      muted: isSet(object.muted) ? globalThis.Boolean(object.muted) : false,
+    };
+  },
+
+  toJSON(message: MediaState_Volume): unknown {
+    const obj: any = {};
+    if (message.level !== 0) {
+      obj.level = message.level;
+    }
+    if (message.muted !== false) {
+      obj.muted = message.muted;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Volume>, I>>(base?: I): MediaState_Volume {
+    return MediaState_Volume.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Volume>, I>>(object: I): MediaState_Volume {
+    const message = createBaseMediaState_Volume();
+    message.level = object.level ?? 0;
+    message.muted = object.muted ?? false;
+    return message;
+  },
+};
+
+function createBaseMediaState_Image(): MediaState_Image {
+  return { url: undefined, data: undefined, mimeType: undefined, width: undefined, height: undefined };
+}
+
+export const MediaState_Image = {
+  encode(message: MediaState_Image, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.url !== undefined) {
+      writer.uint32(10).string(message.url);
+    }
+    if (message.data !== undefined) {
+      writer.uint32(18).bytes(message.data);
+    }
+    if (message.mimeType !== undefined) {
+      writer.uint32(26).string(message.mimeType);
+    }
+    if (message.width !== undefined) {
+      writer.uint32(32).uint32(message.width);
+    }
+    if (message.height !== undefined) {
+      writer.uint32(40).uint32(message.height);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_Image {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_Image();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.url = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.data = reader.bytes();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.mimeType = reader.string();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.width = reader.uint32();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.height = reader.uint32();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_Image {
+    return {
+      url: isSet(object.url) ? globalThis.String(object.url) : undefined,
+      data: isSet(object.data) ? bytesFromBase64(object.data) : undefined,
+      mimeType: isSet(object.mime_type) ? globalThis.String(object.mime_type) : undefined,
+      width: isSet(object.width) ? globalThis.Number(object.width) : undefined,
+      height: isSet(object.height) ? globalThis.Number(object.height) : undefined,
+    };
+  },
+
+  toJSON(message: MediaState_Image): unknown {
+    const obj: any = {};
+    if (message.url !== undefined) {
+      obj.url = message.url;
+    }
+    if (message.data !== undefined) {
+      obj.data = base64FromBytes(message.data);
+    }
+    if (message.mimeType !== undefined) {
+      obj.mime_type = message.mimeType;
+    }
+    if (message.width !== undefined) {
+      obj.width = Math.round(message.width);
+    }
+    if (message.height !== undefined) {
+      obj.height = Math.round(message.height);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Image>, I>>(base?: I): MediaState_Image {
+    return MediaState_Image.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Image>, I>>(object: I): MediaState_Image {
+    const message = createBaseMediaState_Image();
+    message.url = object.url ?? undefined;
+    message.data = object.data ?? undefined;
+    message.mimeType = object.mimeType ?? undefined;
+    message.width = object.width ?? undefined;
+    message.height = object.height ?? undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_Capabilities(): MediaState_Capabilities {
+  return {
+    playPause: false,
+    seekStart: false,
+    skip: false,
+    mediaSessionActions: [],
+    volume: false,
+    playbackRate: false,
+    previousTrack: false,
+  };
+}
+
+export const MediaState_Capabilities = {
+  encode(message: MediaState_Capabilities, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.playPause !== false) {
+      writer.uint32(8).bool(message.playPause);
+    }
+    if (message.seekStart !== false) {
+      writer.uint32(16).bool(message.seekStart);
+    }
+    if (message.skip !== false) {
+      writer.uint32(24).bool(message.skip);
+    }
+    for (const v of message.mediaSessionActions) {
+      writer.uint32(34).string(v!);
+    }
+    if (message.volume !== false) {
+      writer.uint32(40).bool(message.volume);
+    }
+    if (message.playbackRate !== false) {
+      writer.uint32(48).bool(message.playbackRate);
+    }
+    if (message.previousTrack !== false) {
+      writer.uint32(56).bool(message.previousTrack);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_Capabilities {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_Capabilities();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.playPause = reader.bool();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.seekStart = reader.bool();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.skip = reader.bool();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.mediaSessionActions.push(reader.string());
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.volume = reader.bool();
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.playbackRate = reader.bool();
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.previousTrack = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_Capabilities {
+    return {
+      playPause: isSet(object.play_pause) ? globalThis.Boolean(object.play_pause) : false,
+      seekStart: isSet(object.seek_start) ? globalThis.Boolean(object.seek_start) : false,
+      skip: isSet(object.skip) ? globalThis.Boolean(object.skip) : false,
+      mediaSessionActions: globalThis.Array.isArray(object?.media_session_actions)
+        ? object.media_session_actions.map((e: any) => globalThis.String(e))
+        : [],
+      volume: isSet(object.volume) ? globalThis.Boolean(object.volume) : false,
+      playbackRate: isSet(object.playback_rate) ? globalThis.Boolean(object.playback_rate) : false,
+      previousTrack: isSet(object.previous_track) ? globalThis.Boolean(object.previous_track) : false,
+    };
+  },
+
+  toJSON(message: MediaState_Capabilities): unknown {
+    const obj: any = {};
+    if (message.playPause !== false) {
+      obj.play_pause = message.playPause;
+    }
+    if (message.seekStart !== false) {
+      obj.seek_start = message.seekStart;
+    }
+    if (message.skip !== false) {
+      obj.skip = message.skip;
+    }
+    if (message.mediaSessionActions?.length) {
+      obj.media_session_actions = message.mediaSessionActions;
+    }
+    if (message.volume !== false) {
+      obj.volume = message.volume;
+    }
+    if (message.playbackRate !== false) {
+      obj.playback_rate = message.playbackRate;
+    }
+    if (message.previousTrack !== false) {
+      obj.previous_track = message.previousTrack;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Capabilities>, I>>(base?: I): MediaState_Capabilities {
+    return MediaState_Capabilities.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Capabilities>, I>>(object: I): MediaState_Capabilities {
+    const message = createBaseMediaState_Capabilities();
+    message.playPause = object.playPause ?? false;
+    message.seekStart = object.seekStart ?? false;
+    message.skip = object.skip ?? false;
+    message.mediaSessionActions = object.mediaSessionActions?.map((e) => e) || [];
+    message.volume = object.volume ?? false;
+    message.playbackRate = object.playbackRate ?? false;
+    message.previousTrack = object.previousTrack ?? false;
+    return message;
+  },
+};
+
+function createBaseMediaState_ResourceLinks(): MediaState_ResourceLinks {
+  return { trackUrl: {}, albumUrl: {}, artistUrl: {} };
+}
+
+export const MediaState_ResourceLinks = {
+  encode(message: MediaState_ResourceLinks, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    Object.entries(message.trackUrl).forEach(([key, value]) => {
+      MediaState_ResourceLinks_TrackUrlEntry.encode({ key: key as any, value }, writer.uint32(10).fork()).ldelim();
+    });
+    Object.entries(message.albumUrl).forEach(([key, value]) => {
+      MediaState_ResourceLinks_AlbumUrlEntry.encode({ key: key as any, value }, writer.uint32(18).fork()).ldelim();
+    });
+    Object.entries(message.artistUrl).forEach(([key, value]) => {
+      MediaState_ResourceLinks_ArtistUrlEntry.encode({ key: key as any, value }, writer.uint32(26).fork()).ldelim();
+    });
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_ResourceLinks {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_ResourceLinks();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          const entry1 = MediaState_ResourceLinks_TrackUrlEntry.decode(reader, reader.uint32());
+          if (entry1.value !== undefined) {
+            message.trackUrl[entry1.key] = entry1.value;
+          }
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          const entry2 = MediaState_ResourceLinks_AlbumUrlEntry.decode(reader, reader.uint32());
+          if (entry2.value !== undefined) {
+            message.albumUrl[entry2.key] = entry2.value;
+          }
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          const entry3 = MediaState_ResourceLinks_ArtistUrlEntry.decode(reader, reader.uint32());
+          if (entry3.value !== undefined) {
+            message.artistUrl[entry3.key] = entry3.value;
+          }
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_ResourceLinks {
+    return {
+      trackUrl: isObject(object.track_url)
+        ? Object.entries(object.track_url).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+          acc[key] = String(value);
+          return acc;
+        }, {})
+        : {},
+      albumUrl: isObject(object.album_url)
+        ? Object.entries(object.album_url).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+          acc[key] = String(value);
+          return acc;
+        }, {})
+        : {},
+      artistUrl: isObject(object.artist_url)
+        ? Object.entries(object.artist_url).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+          acc[key] = String(value);
+          return acc;
+        }, {})
+        : {},
+    };
+  },
+
+  toJSON(message: MediaState_ResourceLinks): unknown {
+    const obj: any = {};
+    if (message.trackUrl) {
+      const entries = Object.entries(message.trackUrl);
+      if (entries.length > 0) {
+        obj.track_url = {};
+        entries.forEach(([k, v]) => {
+          obj.track_url[k] = v;
+        });
+      }
+    }
+    if (message.albumUrl) {
+      const entries = Object.entries(message.albumUrl);
+      if (entries.length > 0) {
+        obj.album_url = {};
+        entries.forEach(([k, v]) => {
+          obj.album_url[k] = v;
+        });
+      }
+    }
+    if (message.artistUrl) {
+      const entries = Object.entries(message.artistUrl);
+      if (entries.length > 0) {
+        obj.artist_url = {};
+        entries.forEach(([k, v]) => {
+          obj.artist_url[k] = v;
+        });
+      }
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_ResourceLinks>, I>>(base?: I): MediaState_ResourceLinks {
+    return MediaState_ResourceLinks.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_ResourceLinks>, I>>(object: I): MediaState_ResourceLinks {
+    const message = createBaseMediaState_ResourceLinks();
+    message.trackUrl = Object.entries(object.trackUrl ?? {}).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[key] = globalThis.String(value);
+      }
+      return acc;
+    }, {});
+    message.albumUrl = Object.entries(object.albumUrl ?? {}).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[key] = globalThis.String(value);
+      }
+      return acc;
+    }, {});
+    message.artistUrl = Object.entries(object.artistUrl ?? {}).reduce<{ [key: string]: string }>(
+      (acc, [key, value]) => {
+        if (value !== undefined) {
+          acc[key] = globalThis.String(value);
+        }
+        return acc;
+      },
+      {},
+    );
+    return message;
+  },
+};
+
+function createBaseMediaState_ResourceLinks_TrackUrlEntry(): MediaState_ResourceLinks_TrackUrlEntry {
+  return { key: "", value: "" };
+}
+
+export const MediaState_ResourceLinks_TrackUrlEntry = {
+  encode(message: MediaState_ResourceLinks_TrackUrlEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== "") {
+      writer.uint32(10).string(message.key);
+    }
+    if (message.value !== "") {
+      writer.uint32(18).string(message.value);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_ResourceLinks_TrackUrlEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_ResourceLinks_TrackUrlEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.key = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.value = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_ResourceLinks_TrackUrlEntry {
+    return {
+      key: isSet(object.key) ? globalThis.String(object.key) : "",
+      value: isSet(object.value) ? globalThis.String(object.value) : "",
+    };
+  },
+
+  toJSON(message: MediaState_ResourceLinks_TrackUrlEntry): unknown {
+    const obj: any = {};
+    if (message.key !== "") {
+      obj.key = message.key;
+    }
+    if (message.value !== "") {
+      obj.value = message.value;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_ResourceLinks_TrackUrlEntry>, I>>(
+    base?: I,
+  ): MediaState_ResourceLinks_TrackUrlEntry {
+    return MediaState_ResourceLinks_TrackUrlEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_ResourceLinks_TrackUrlEntry>, I>>(
+    object: I,
+  ): MediaState_ResourceLinks_TrackUrlEntry {
+    const message = createBaseMediaState_ResourceLinks_TrackUrlEntry();
+    message.key = object.key ?? "";
+    message.value = object.value ?? "";
+    return message;
+  },
+};
+
+function createBaseMediaState_ResourceLinks_AlbumUrlEntry(): MediaState_ResourceLinks_AlbumUrlEntry {
+  return { key: "", value: "" };
+}
+
+export const MediaState_ResourceLinks_AlbumUrlEntry = {
+  encode(message: MediaState_ResourceLinks_AlbumUrlEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== "") {
+      writer.uint32(10).string(message.key);
+    }
+    if (message.value !== "") {
+      writer.uint32(18).string(message.value);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_ResourceLinks_AlbumUrlEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_ResourceLinks_AlbumUrlEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.key = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.value = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_ResourceLinks_AlbumUrlEntry {
+    return {
+      key: isSet(object.key) ? globalThis.String(object.key) : "",
+      value: isSet(object.value) ? globalThis.String(object.value) : "",
+    };
+  },
+
+  toJSON(message: MediaState_ResourceLinks_AlbumUrlEntry): unknown {
+    const obj: any = {};
+    if (message.key !== "") {
+      obj.key = message.key;
+    }
+    if (message.value !== "") {
+      obj.value = message.value;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_ResourceLinks_AlbumUrlEntry>, I>>(
+    base?: I,
+  ): MediaState_ResourceLinks_AlbumUrlEntry {
+    return MediaState_ResourceLinks_AlbumUrlEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_ResourceLinks_AlbumUrlEntry>, I>>(
+    object: I,
+  ): MediaState_ResourceLinks_AlbumUrlEntry {
+    const message = createBaseMediaState_ResourceLinks_AlbumUrlEntry();
+    message.key = object.key ?? "";
+    message.value = object.value ?? "";
+    return message;
+  },
+};
+
+function createBaseMediaState_ResourceLinks_ArtistUrlEntry(): MediaState_ResourceLinks_ArtistUrlEntry {
+  return { key: "", value: "" };
+}
+
+export const MediaState_ResourceLinks_ArtistUrlEntry = {
+  encode(message: MediaState_ResourceLinks_ArtistUrlEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== "") {
+      writer.uint32(10).string(message.key);
+    }
+    if (message.value !== "") {
+      writer.uint32(18).string(message.value);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaState_ResourceLinks_ArtistUrlEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaState_ResourceLinks_ArtistUrlEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.key = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.value = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaState_ResourceLinks_ArtistUrlEntry {
+    return {
+      key: isSet(object.key) ? globalThis.String(object.key) : "",
+      value: isSet(object.value) ? globalThis.String(object.value) : "",
+    };
+  },
+
+  toJSON(message: MediaState_ResourceLinks_ArtistUrlEntry): unknown {
+    const obj: any = {};
+    if (message.key !== "") {
+      obj.key = message.key;
+    }
+    if (message.value !== "") {
+      obj.value = message.value;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_ResourceLinks_ArtistUrlEntry>, I>>(
+    base?: I,
+  ): MediaState_ResourceLinks_ArtistUrlEntry {
+    return MediaState_ResourceLinks_ArtistUrlEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_ResourceLinks_ArtistUrlEntry>, I>>(
+    object: I,
+  ): MediaState_ResourceLinks_ArtistUrlEntry {
+    const message = createBaseMediaState_ResourceLinks_ArtistUrlEntry();
+    message.key = object.key ?? "";
+    message.value = object.value ?? "";
+    return message;
+  },
+};
+
+function createBaseMediaHistoryEntry(): MediaHistoryEntry {
+  return {
+    mediaId: "",
+    source: undefined,
+    metadata: undefined,
+    resourceLinks: undefined,
+    startTime: undefined,
+    playedDuration: 0,
+  };
+}
+
+export const MediaHistoryEntry = {
+  encode(message: MediaHistoryEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.mediaId !== "") {
+      writer.uint32(10).string(message.mediaId);
+    }
+    if (message.source !== undefined) {
+      MediaState_Source.encode(message.source, writer.uint32(18).fork()).ldelim();
+    }
+    if (message.metadata !== undefined) {
+      MediaState_Metadata.encode(message.metadata, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.resourceLinks !== undefined) {
+      MediaState_ResourceLinks.encode(message.resourceLinks, writer.uint32(34).fork()).ldelim();
+    }
+    if (message.startTime !== undefined) {
+      Timestamp.encode(toTimestamp(message.startTime), writer.uint32(42).fork()).ldelim();
+    }
+    if (message.playedDuration !== 0) {
+      writer.uint32(49).double(message.playedDuration);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaHistoryEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaHistoryEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.mediaId = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.source = MediaState_Source.decode(reader, reader.uint32());
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.metadata = MediaState_Metadata.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.resourceLinks = MediaState_ResourceLinks.decode(reader, reader.uint32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.startTime = fromTimestamp(Timestamp.decode(reader, reader.uint32()));
+          continue;
+        case 6:
+          if (tag !== 49) {
+            break;
+          }
+
+          message.playedDuration = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaHistoryEntry {
+    return {
+      mediaId: isSet(object.media_id) ? globalThis.String(object.media_id) : "",
+      source: isSet(object.source) ? MediaState_Source.fromJSON(object.source) : undefined,
+      metadata: isSet(object.metadata) ? MediaState_Metadata.fromJSON(object.metadata) : undefined,
+      resourceLinks: isSet(object.resource_links)
+        ? MediaState_ResourceLinks.fromJSON(object.resource_links)
+        : undefined,
+      startTime: isSet(object.start_time) ? fromJsonTimestamp(object.start_time) : undefined,
+      playedDuration: isSet(object.played_duration) ? globalThis.Number(object.played_duration) : 0,
+    };
+  },
+
+  toJSON(message: MediaHistoryEntry): unknown {
+    const obj: any = {};
+    if (message.mediaId !== "") {
+      obj.media_id = message.mediaId;
+    }
+    if (message.source !== undefined) {
+      obj.source = MediaState_Source.toJSON(message.source);
+    }
+    if (message.metadata !== undefined) {
+      obj.metadata = MediaState_Metadata.toJSON(message.metadata);
+    }
+    if (message.resourceLinks !== undefined) {
+      obj.resource_links = MediaState_ResourceLinks.toJSON(message.resourceLinks);
+    }
+    if (message.startTime !== undefined) {
+      obj.start_time = message.startTime.toISOString();
+    }
+    if (message.playedDuration !== 0) {
+      obj.played_duration = message.playedDuration;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaHistoryEntry>, I>>(base?: I): MediaHistoryEntry {
+    return MediaHistoryEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaHistoryEntry>, I>>(object: I): MediaHistoryEntry {
+    const message = createBaseMediaHistoryEntry();
+    message.mediaId = object.mediaId ?? "";
+    message.source = (object.source !== undefined && object.source !== null)
+      ? MediaState_Source.fromPartial(object.source)
+      : undefined;
+    message.metadata = (object.metadata !== undefined && object.metadata !== null)
+      ? MediaState_Metadata.fromPartial(object.metadata)
+      : undefined;
+    message.resourceLinks = (object.resourceLinks !== undefined && object.resourceLinks !== null)
+      ? MediaState_ResourceLinks.fromPartial(object.resourceLinks)
+      : undefined;
+    message.startTime = object.startTime ?? undefined;
+    message.playedDuration = object.playedDuration ?? 0;
+    return message;
+  },
+};
+
+function createBaseHello(): Hello {
+  return { browserType: 0, supportedUpdateModes: [], protocolVersion: 0, minProtocolVersion: 0, supportedFeatures: [] };
+}
+
+export const Hello = {
+  encode(message: Hello, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.browserType !== 0) {
+      writer.uint32(8).int32(message.browserType);
+    }
+    writer.uint32(18).fork();
+    for (const v of message.supportedUpdateModes) {
+      writer.int32(v);
+    }
+    writer.ldelim();
+    if (message.protocolVersion !== 0) {
+      writer.uint32(24).uint32(message.protocolVersion);
+    }
+    if (message.minProtocolVersion !== 0) {
+      writer.uint32(32).uint32(message.minProtocolVersion);
+    }
+    writer.uint32(42).fork();
+    for (const v of message.supportedFeatures) {
+      writer.int32(v);
+    }
+    writer.ldelim();
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Hello {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseHello();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.browserType = reader.int32() as any;
+          continue;
+        case 2:
+          if (tag === 16) {
+            message.supportedUpdateModes.push(reader.int32() as any);
+
+            continue;
+          }
+
+          if (tag === 18) {
+            const end2 = reader.uint32() + reader.pos;
+            while (reader.pos < end2) {
+              message.supportedUpdateModes.push(reader.int32() as any);
+            }
+
+            continue;
+          }
+
+          break;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.protocolVersion = reader.uint32();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.minProtocolVersion = reader.uint32();
+          continue;
+        case 5:
+          if (tag === 40) {
+            message.supportedFeatures.push(reader.int32() as any);
+
+            continue;
+          }
+
+          if (tag === 42) {
+            const end2 = reader.uint32() + reader.pos;
+            while (reader.pos < end2) {
+              message.supportedFeatures.push(reader.int32() as any);
+            }
+
+            continue;
+          }
+
+          break;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): Hello {
+    return {
+      browserType: isSet(object.browser_type) ? browserTypeFromJSON(object.browser_type) : 0,
+      supportedUpdateModes: globalThis.Array.isArray(object?.supported_update_modes)
+        ? object.supported_update_modes.map((e: any) => updateModeFromJSON(e))
+        : [],
+      protocolVersion: isSet(object.protocol_version) ? globalThis.Number(object.protocol_version) : 0,
+      minProtocolVersion: isSet(object.min_protocol_version) ? globalThis.Number(object.min_protocol_version) : 0,
+      supportedFeatures: globalThis.Array.isArray(object?.supported_features)
+        ? object.supported_features.map((e: any) => featureFromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: Hello): unknown {
+    const obj: any = {};
+    if (message.browserType !== 0) {
+      obj.browser_type = browserTypeToJSON(message.browserType);
+    }
+    if (message.supportedUpdateModes?.length) {
+      obj.supported_update_modes = message.supportedUpdateModes.map((e) => updateModeToJSON(e));
+    }
+    if (message.protocolVersion !== 0) {
+      obj.protocol_version = Math.round(message.protocolVersion);
+    }
+    if (message.minProtocolVersion !== 0) {
+      obj.min_protocol_version = Math.round(message.minProtocolVersion);
+    }
+    if (message.supportedFeatures?.length) {
+      obj.supported_features = message.supportedFeatures.map((e) => featureToJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<Hello>, I>>(base?: I): Hello {
+    return Hello.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<Hello>, I>>(object: I): Hello {
+    const message = createBaseHello();
+    message.browserType = object.browserType ?? 0;
+    message.supportedUpdateModes = object.supportedUpdateModes?.map((e) => e) || [];
+    message.protocolVersion = object.protocolVersion ?? 0;
+    message.minProtocolVersion = object.minProtocolVersion ?? 0;
+    message.supportedFeatures = object.supportedFeatures?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseHelloReply(): HelloReply {
+  return { protocolVersion: 0, features: [] };
+}
+
+export const HelloReply = {
+  encode(message: HelloReply, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.protocolVersion !== 0) {
+      writer.uint32(8).uint32(message.protocolVersion);
+    }
+    writer.uint32(18).fork();
+    for (const v of message.features) {
+      writer.int32(v);
+    }
+    writer.ldelim();
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): HelloReply {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseHelloReply();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.protocolVersion = reader.uint32();
+          continue;
+        case 2:
+          if (tag === 16) {
+            message.features.push(reader.int32() as any);
+
+            continue;
+          }
+
+          if (tag === 18) {
+            const end2 = reader.uint32() + reader.pos;
+            while (reader.pos < end2) {
+              message.features.push(reader.int32() as any);
+            }
+
+            continue;
+          }
+
+          break;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): HelloReply {
+    return {
+      protocolVersion: isSet(object.protocol_version) ? globalThis.Number(object.protocol_version) : 0,
+      features: globalThis.Array.isArray(object?.features) ? object.features.map((e: any) => featureFromJSON(e)) : [],
+    };
+  },
+
+  toJSON(message: HelloReply): unknown {
+    const obj: any = {};
+    if (message.protocolVersion !== 0) {
+      obj.protocol_version = Math.round(message.protocolVersion);
+    }
+    if (message.features?.length) {
+      obj.features = message.features.map((e) => featureToJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<HelloReply>, I>>(base?: I): HelloReply {
+    return HelloReply.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<HelloReply>, I>>(object: I): HelloReply {
+    const message = createBaseHelloReply();
+    message.protocolVersion = object.protocolVersion ?? 0;
+    message.features = object.features?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseSubscribeMedia(): SubscribeMedia {
+  return { websites: [], updateMode: 0 };
+}
+
+export const SubscribeMedia = {
+  encode(message: SubscribeMedia, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.websites) {
+      SubscribeMedia_Website.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.updateMode !== 0) {
+      writer.uint32(16).int32(message.updateMode);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): SubscribeMedia {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseSubscribeMedia();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.websites.push(SubscribeMedia_Website.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.updateMode = reader.int32() as any;
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): SubscribeMedia {
+    return {
+      websites: globalThis.Array.isArray(object?.websites)
+        ? object.websites.map((e: any) => SubscribeMedia_Website.fromJSON(e))
+        : [],
+      updateMode: isSet(object.update_mode) ? updateModeFromJSON(object.update_mode) : 0,
+    };
+  },
+
+  toJSON(message: SubscribeMedia): unknown {
+    const obj: any = {};
+    if (message.websites?.length) {
+      obj.websites = message.websites.map((e) => SubscribeMedia_Website.toJSON(e));
+    }
+    if (message.updateMode !== 0) {
+      obj.update_mode = updateModeToJSON(message.updateMode);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<SubscribeMedia>, I>>(base?: I): SubscribeMedia {
+    return SubscribeMedia.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<SubscribeMedia>, I>>(object: I): SubscribeMedia {
+    const message = createBaseSubscribeMedia();
+    message.websites = object.websites?.map((e) => SubscribeMedia_Website.fromPartial(e)) || [];
+    message.updateMode = object.updateMode ?? 0;
+    return message;
+  },
+};
+
+function createBaseSubscribeMedia_Website(): SubscribeMedia_Website {
+  return { reverseDomain: "", includeSubdomains: false };
+}
+
+export const SubscribeMedia_Website = {
+  encode(message: SubscribeMedia_Website, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.reverseDomain !== "") {
+      writer.uint32(10).string(message.reverseDomain);
+    }
+    if (message.includeSubdomains !== false) {
+      writer.uint32(16).bool(message.includeSubdomains);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): SubscribeMedia_Website {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseSubscribeMedia_Website();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.reverseDomain = reader.string();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.includeSubdomains = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): SubscribeMedia_Website {
+    return {
+      reverseDomain: isSet(object.reverse_domain) ? globalThis.String(object.reverse_domain) : "",
+      includeSubdomains: isSet(object.include_subdomains) ? globalThis.Boolean(object.include_subdomains) : false,
+    };
+  },
+
+  toJSON(message: SubscribeMedia_Website): unknown {
+    const obj: any = {};
+    if (message.reverseDomain !== "") {
+      obj.reverse_domain = message.reverseDomain;
+    }
+    if (message.includeSubdomains !== false) {
+      obj.include_subdomains = message.includeSubdomains;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<SubscribeMedia_Website>, I>>(base?: I): SubscribeMedia_Website {
+    return SubscribeMedia_Website.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<SubscribeMedia_Website>, I>>(object: I): SubscribeMedia_Website {
+    const message = createBaseSubscribeMedia_Website();
+    message.reverseDomain = object.reverseDomain ?? "";
+    message.includeSubdomains = object.includeSubdomains ?? false;
+    return message;
+  },
+};
+
+function createBaseCancelMediaSubscription(): CancelMediaSubscription {
+  return {};
+}
+
+export const CancelMediaSubscription = {
+  encode(_: CancelMediaSubscription, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): CancelMediaSubscription {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCancelMediaSubscription();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(_: any): CancelMediaSubscription {
+    return {};
+  },
+
+  toJSON(_: CancelMediaSubscription): unknown {
+    const obj: any = {};
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<CancelMediaSubscription>, I>>(base?: I): CancelMediaSubscription {
+    return CancelMediaSubscription.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<CancelMediaSubscription>, I>>(_: I): CancelMediaSubscription {
+    const message = createBaseCancelMediaSubscription();
+    return message;
+  },
+};
+
+function createBaseMediaUpdate(): MediaUpdate {
+  return { media: [] };
+}
+
+export const MediaUpdate = {
+  encode(message: MediaUpdate, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.media) {
+      MediaState.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaUpdate {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaUpdate();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.media.push(MediaState.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaUpdate {
+    return {
+      media: globalThis.Array.isArray(object?.media) ? object.media.map((e: any) => MediaState.fromJSON(e)) : [],
+    };
+  },
+
+  toJSON(message: MediaUpdate): unknown {
+    const obj: any = {};
+    if (message.media?.length) {
+      obj.media = message.media.map((e) => MediaState.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaUpdate>, I>>(base?: I): MediaUpdate {
+    return MediaUpdate.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaUpdate>, I>>(object: I): MediaUpdate {
+    const message = createBaseMediaUpdate();
+    message.media = object.media?.map((e) => MediaState.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseMediaUpdateDelta(): MediaUpdateDelta {
+  return { added: [], changed: [], removed: [] };
+}
+
+export const MediaUpdateDelta = {
+  encode(message: MediaUpdateDelta, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.added) {
+      MediaState.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    for (const v of message.changed) {
+      MediaState.encode(v!, writer.uint32(18).fork()).ldelim();
+    }
+    for (const v of message.removed) {
+      writer.uint32(26).string(v!);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaUpdateDelta {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaUpdateDelta();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.added.push(MediaState.decode(reader, reader.uint32()));
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.changed.push(MediaState.decode(reader, reader.uint32()));
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.removed.push(reader.string());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaUpdateDelta {
+    return {
+      added: globalThis.Array.isArray(object?.added) ? object.added.map((e: any) => MediaState.fromJSON(e)) : [],
+      changed: globalThis.Array.isArray(object?.changed) ? object.changed.map((e: any) => MediaState.fromJSON(e)) : [],
+      removed: globalThis.Array.isArray(object?.removed) ? object.removed.map((e: any) => globalThis.String(e)) : [],
+    };
+  },
+
+  toJSON(message: MediaUpdateDelta): unknown {
+    const obj: any = {};
+    if (message.added?.length) {
+      obj.added = message.added.map((e) => MediaState.toJSON(e));
+    }
+    if (message.changed?.length) {
+      obj.changed = message.changed.map((e) => MediaState.toJSON(e));
+    }
+    if (message.removed?.length) {
+      obj.removed = message.removed;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaUpdateDelta>, I>>(base?: I): MediaUpdateDelta {
+    return MediaUpdateDelta.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaUpdateDelta>, I>>(object: I): MediaUpdateDelta {
+    const message = createBaseMediaUpdateDelta();
+    message.added = object.added?.map((e) => MediaState.fromPartial(e)) || [];
+    message.changed = object.changed?.map((e) => MediaState.fromPartial(e)) || [];
+    message.removed = object.removed?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseMediaCommand(): MediaCommand {
+  return { commandId: 0, mediaId: "", action: 0, position: undefined };
+}
+
+export const MediaCommand = {
+  encode(message: MediaCommand, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.commandId !== 0) {
+      writer.uint32(8).uint32(message.commandId);
+    }
+    if (message.mediaId !== "") {
+      writer.uint32(18).string(message.mediaId);
+    }
+    if (message.action !== 0) {
+      writer.uint32(24).int32(message.action);
+    }
+    if (message.position !== undefined) {
+      writer.uint32(33).double(message.position);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaCommand {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaCommand();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.commandId = reader.uint32();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.mediaId = reader.string();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.action = reader.int32() as any;
+          continue;
+        case 4:
+          if (tag !== 33) {
+            break;
+          }
+
+          message.position = reader.double();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaCommand {
+    return {
+      commandId: isSet(object.command_id) ? globalThis.Number(object.command_id) : 0,
+      mediaId: isSet(object.media_id) ? globalThis.String(object.media_id) : "",
+      action: isSet(object.action) ? mediaCommand_ActionFromJSON(object.action) : 0,
+      position: isSet(object.position) ? globalThis.Number(object.position) : undefined,
+    };
+  },
+
+  toJSON(message: MediaCommand): unknown {
+    const obj: any = {};
+    if (message.commandId !== 0) {
+      obj.command_id = Math.round(message.commandId);
+    }
+    if (message.mediaId !== "") {
+      obj.media_id = message.mediaId;
+    }
+    if (message.action !== 0) {
+      obj.action = mediaCommand_ActionToJSON(message.action);
+    }
+    if (message.position !== undefined) {
+      obj.position = message.position;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaCommand>, I>>(base?: I): MediaCommand {
+    return MediaCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaCommand>, I>>(object: I): MediaCommand {
+    const message = createBaseMediaCommand();
+    message.commandId = object.commandId ?? 0;
+    message.mediaId = object.mediaId ?? "";
+    message.action = object.action ?? 0;
+    message.position = object.position ?? undefined;
+    return message;
+  },
+};
+
+function createBaseMediaCommandResult(): MediaCommandResult {
+  return { commandId: 0, ok: false, handledByPage: false };
+}
+
+export const MediaCommandResult = {
+  encode(message: MediaCommandResult, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.commandId !== 0) {
+      writer.uint32(8).uint32(message.commandId);
+    }
+    if (message.ok !== false) {
+      writer.uint32(16).bool(message.ok);
+    }
+    if (message.handledByPage !== false) {
+      writer.uint32(24).bool(message.handledByPage);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaCommandResult {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaCommandResult();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.commandId = reader.uint32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.ok = reader.bool();
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.handledByPage = reader.bool();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaCommandResult {
+    return {
+      commandId: isSet(object.command_id) ? globalThis.Number(object.command_id) : 0,
+      ok: isSet(object.ok) ? globalThis.Boolean(object.ok) : false,
+      handledByPage: isSet(object.handled_by_page) ? globalThis.Boolean(object.handled_by_page) : false,
+    };
+  },
+
+  toJSON(message: MediaCommandResult): unknown {
+    const obj: any = {};
+    if (message.commandId !== 0) {
+      obj.command_id = Math.round(message.commandId);
+    }
+    if (message.ok !== false) {
+      obj.ok = message.ok;
+    }
+    if (message.handledByPage !== false) {
+      obj.handled_by_page = message.handledByPage;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaCommandResult>, I>>(base?: I): MediaCommandResult {
+    return MediaCommandResult.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaCommandResult>, I>>(object: I): MediaCommandResult {
+    const message = createBaseMediaCommandResult();
+    message.commandId = object.commandId ?? 0;
+    message.ok = object.ok ?? false;
+    message.handledByPage = object.handledByPage ?? false;
+    return message;
+  },
+};
+
+function createBaseGetMediaHistory(): GetMediaHistory {
+  return { websites: [] };
+}
+
+export const GetMediaHistory = {
+  encode(message: GetMediaHistory, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.websites) {
+      SubscribeMedia_Website.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GetMediaHistory {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetMediaHistory();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.websites.push(SubscribeMedia_Website.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): GetMediaHistory {
+    return {
+      websites: globalThis.Array.isArray(object?.websites)
+        ? object.websites.map((e: any) => SubscribeMedia_Website.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: GetMediaHistory): unknown {
+    const obj: any = {};
+    if (message.websites?.length) {
+      obj.websites = message.websites.map((e) => SubscribeMedia_Website.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<GetMediaHistory>, I>>(base?: I): GetMediaHistory {
+    return GetMediaHistory.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<GetMediaHistory>, I>>(object: I): GetMediaHistory {
+    const message = createBaseGetMediaHistory();
+    message.websites = object.websites?.map((e) => SubscribeMedia_Website.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseMediaHistory(): MediaHistory {
+  return { entries: [] };
+}
+
+export const MediaHistory = {
+  encode(message: MediaHistory, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.entries) {
+      MediaHistoryEntry.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): MediaHistory {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMediaHistory();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.entries.push(MediaHistoryEntry.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): MediaHistory {
+    return {
+      entries: globalThis.Array.isArray(object?.entries)
+        ? object.entries.map((e: any) => MediaHistoryEntry.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: MediaHistory): unknown {
+    const obj: any = {};
+    if (message.entries?.length) {
+      obj.entries = message.entries.map((e) => MediaHistoryEntry.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaHistory>, I>>(base?: I): MediaHistory {
+    return MediaHistory.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaHistory>, I>>(object: I): MediaHistory {
+    const message = createBaseMediaHistory();
+    message.entries = object.entries?.map((e) => MediaHistoryEntry.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseMessage(): Message {
+  return {
+    hello: undefined,
+    subscribeMedia: undefined,
+    cancelMediaSubscription: undefined,
+    mediaUpdate: undefined,
+    mediaCommand: undefined,
+    mediaCommandResult: undefined,
+    mediaUpdateDelta: undefined,
+    helloReply: undefined,
+    getMediaHistory: undefined,
+    mediaHistory: undefined,
+  };
+}
+
+export const Message = {
+  encode(message: Message, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.hello !== undefined) {
+      Hello.encode(message.hello, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.subscribeMedia !== undefined) {
+      SubscribeMedia.encode(message.subscribeMedia, writer.uint32(18).fork()).ldelim();
+    }
+    if (message.cancelMediaSubscription !== undefined) {
+      CancelMediaSubscription.encode(message.cancelMediaSubscription, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.mediaUpdate !== undefined) {
+      MediaUpdate.encode(message.mediaUpdate, writer.uint32(34).fork()).ldelim();
+    }
+    if (message.mediaCommand !== undefined) {
+      MediaCommand.encode(message.mediaCommand, writer.uint32(42).fork()).ldelim();
+    }
+    if (message.mediaCommandResult !== undefined) {
+      MediaCommandResult.encode(message.mediaCommandResult, writer.uint32(50).fork()).ldelim();
+    }
+    if (message.mediaUpdateDelta !== undefined) {
+      MediaUpdateDelta.encode(message.mediaUpdateDelta, writer.uint32(58).fork()).ldelim();
+    }
+    if (message.helloReply !== undefined) {
+      HelloReply.encode(message.helloReply, writer.uint32(66).fork()).ldelim();
+    }
+    if (message.getMediaHistory !== undefined) {
+      GetMediaHistory.encode(message.getMediaHistory, writer.uint32(74).fork()).ldelim();
+    }
+    if (message.mediaHistory !== undefined) {
+      MediaHistory.encode(message.mediaHistory, writer.uint32(82).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Message {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseMessage();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.hello = Hello.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.subscribeMedia = SubscribeMedia.decode(reader, reader.uint32());
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.cancelMediaSubscription = CancelMediaSubscription.decode(reader, reader.uint32());
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.mediaUpdate = MediaUpdate.decode(reader, reader.uint32());
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.mediaCommand = MediaCommand.decode(reader, reader.uint32());
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.mediaCommandResult = MediaCommandResult.decode(reader, reader.uint32());
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.mediaUpdateDelta = MediaUpdateDelta.decode(reader, reader.uint32());
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.helloReply = HelloReply.decode(reader, reader.uint32());
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.getMediaHistory = GetMediaHistory.decode(reader, reader.uint32());
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.mediaHistory = MediaHistory.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): Message {
+    return {
+      hello: isSet(object.hello) ? Hello.fromJSON(object.hello) : undefined,
+      subscribeMedia: isSet(object.subscribe_media) ? SubscribeMedia.fromJSON(object.subscribe_media) : undefined,
+      cancelMediaSubscription: isSet(object.cancel_media_subscription)
+        ? CancelMediaSubscription.fromJSON(object.cancel_media_subscription)
+        : undefined,
+      mediaUpdate: isSet(object.media_update) ? MediaUpdate.fromJSON(object.media_update) : undefined,
+      mediaCommand: isSet(object.media_command) ? MediaCommand.fromJSON(object.media_command) : undefined,
+      mediaCommandResult: isSet(object.media_command_result)
+        ? MediaCommandResult.fromJSON(object.media_command_result)
+        : undefined,
+      mediaUpdateDelta: isSet(object.media_update_delta)
+        ? MediaUpdateDelta.fromJSON(object.media_update_delta)
+        : undefined,
+      helloReply: isSet(object.hello_reply) ? HelloReply.fromJSON(object.hello_reply) : undefined,
+      getMediaHistory: isSet(object.get_media_history) ? GetMediaHistory.fromJSON(object.get_media_history) : undefined,
+      mediaHistory: isSet(object.media_history) ? MediaHistory.fromJSON(object.media_history) : undefined,
+    };
+  },
+
+  toJSON(message: Message): unknown {
+    const obj: any = {};
+    if (message.hello !== undefined) {
+      obj.hello = Hello.toJSON(message.hello);
+    }
+    if (message.subscribeMedia !== undefined) {
+      obj.subscribe_media = SubscribeMedia.toJSON(message.subscribeMedia);
+    }
+    if (message.cancelMediaSubscription !== undefined) {
+      obj.cancel_media_subscription = CancelMediaSubscription.toJSON(message.cancelMediaSubscription);
+    }
+    if (message.mediaUpdate !== undefined) {
+      obj.media_update = MediaUpdate.toJSON(message.mediaUpdate);
+    }
+    if (message.mediaCommand !== undefined) {
+      obj.media_command = MediaCommand.toJSON(message.mediaCommand);
+    }
+    if (message.mediaCommandResult !== undefined) {
+      obj.media_command_result = MediaCommandResult.toJSON(message.mediaCommandResult);
+    }
+    if (message.mediaUpdateDelta !== undefined) {
+      obj.media_update_delta = MediaUpdateDelta.toJSON(message.mediaUpdateDelta);
+    }
+    if (message.helloReply !== undefined) {
+      obj.hello_reply = HelloReply.toJSON(message.helloReply);
+    }
+    if (message.getMediaHistory !== undefined) {
+      obj.get_media_history = GetMediaHistory.toJSON(message.getMediaHistory);
+    }
+    if (message.mediaHistory !== undefined) {
+      obj.media_history = MediaHistory.toJSON(message.mediaHistory);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<Message>, I>>(base?: I): Message {
+    return Message.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<Message>, I>>(object: I): Message {
+    const message = createBaseMessage();
+    message.hello = (object.hello !== undefined && object.hello !== null) ? Hello.fromPartial(object.hello) : undefined;
+    message.subscribeMedia = (object.subscribeMedia !== undefined && object.subscribeMedia !== null)
+      ? SubscribeMedia.fromPartial(object.subscribeMedia)
+      : undefined;
+    message.cancelMediaSubscription =
+      (object.cancelMediaSubscription !== undefined && object.cancelMediaSubscription !== null)
+        ? CancelMediaSubscription.fromPartial(object.cancelMediaSubscription)
+        : undefined;
+    message.mediaUpdate = (object.mediaUpdate !== undefined && object.mediaUpdate !== null)
+      ? MediaUpdate.fromPartial(object.mediaUpdate)
+      : undefined;
+    message.mediaCommand = (object.mediaCommand !== undefined && object.mediaCommand !== null)
+      ? MediaCommand.fromPartial(object.mediaCommand)
+      : undefined;
+    message.mediaCommandResult = (object.mediaCommandResult !== undefined && object.mediaCommandResult !== null)
+      ? MediaCommandResult.fromPartial(object.mediaCommandResult)
+      : undefined;
+    message.mediaUpdateDelta = (object.mediaUpdateDelta !== undefined && object.mediaUpdateDelta !== null)
+      ? MediaUpdateDelta.fromPartial(object.mediaUpdateDelta)
+      : undefined;
+    message.helloReply = (object.helloReply !== undefined && object.helloReply !== null)
+      ? HelloReply.fromPartial(object.helloReply)
+      : undefined;
+    message.getMediaHistory = (object.getMediaHistory !== undefined && object.getMediaHistory !== null)
+      ? GetMediaHistory.fromPartial(object.getMediaHistory)
+      : undefined;
+    message.mediaHistory = (object.mediaHistory !== undefined && object.mediaHistory !== null)
+      ? MediaHistory.fromPartial(object.mediaHistory)
+      : undefined;
+    return message;
+  },
+};
+
+function bytesFromBase64(b64: string): Uint8Array {
+  if ((globalThis as any).Buffer) {
+    return Uint8Array.from(globalThis.Buffer.from(b64, "base64"));
+  } else {
+    const bin = globalThis.atob(b64);
+    const arr = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; ++i) {
+      arr[i] = bin.charCodeAt(i);
+    }
+    return arr;
+  }
+}
+
+function base64FromBytes(arr: Uint8Array): string {
+  if ((globalThis as any).Buffer) {
+    return globalThis.Buffer.from(arr).toString("base64");
+  } else {
+    const bin: string[] = [];
+    arr.forEach((byte) => {
+      bin.push(globalThis.String.fromCharCode(byte));
+    });
+    return globalThis.btoa(bin.join(""));
+  }
+}
+
+type Builtin = Date | Function | Uint8Array | string | number | boolean | undefined;
+
+export type DeepPartial<T> = T extends Builtin ? T
+  : T extends globalThis.Array<infer U> ? globalThis.Array<DeepPartial<U>>
+  : T extends ReadonlyArray<infer U> ? ReadonlyArray<DeepPartial<U>>
+  : T extends {} ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : Partial<T>;
+
+type KeysOfUnion<T> = T extends T ? keyof T : never;
+export type Exact<P, I extends P> = P extends Builtin ? P
+  : P & { [K in keyof P]: Exact<P[K], I[K]> } & { [K in Exclude<keyof I, KeysOfUnion<P>>]: never };
+
+function toTimestamp(date: Date): Timestamp {
+  const seconds = Math.trunc(date.getTime() / 1_000);
+  const nanos = (date.getTime() % 1_000) * 1_000_000;
+  return { seconds, nanos };
+}
+
+function fromTimestamp(t: Timestamp): Date {
+  let millis = (t.seconds || 0) * 1_000;
+  millis += (t.nanos || 0) / 1_000_000;
+  return new globalThis.Date(millis);
+}
+
+function fromJsonTimestamp(o: any): Date {
+  if (o instanceof globalThis.Date) {
+    return o;
+  } else if (typeof o === "string") {
+    return new globalThis.Date(o);
+  } else {
+    return fromTimestamp(Timestamp.fromJSON(o));
+  }
+}
+
+function isObject(value: any): boolean {
+  return typeof value === "object" && value !== null;
+}
+
+function isSet(value: any): boolean {
+  return value !== null && value !== undefined;
+}
@@ -86,6 +86,91 @@ export function browserTypeToJSON(object: BrowserType): string {
   }
 }
 
+/** How media updates are sent after subscribing. */
+export enum UpdateMode {
+  /** FULL - Every MediaUpdate contains the state of all subscribed media. */
+  FULL = 0,
+  /**
+   * DELTA - A MediaUpdate is sent right after subscribing and periodically after that
+   * to resynchronize, and MediaUpdateDelta messages are sent in between.
+   */
+  DELTA = 1,
+  UNRECOGNIZED = -1,
+}
+
+export function updateModeFromJSON(object: any): UpdateMode {
+  switch (object) {
+    case 0:
+    case "UPDATE_MODE_FULL":
+      return UpdateMode.FULL;
+    case 1:
+    case "UPDATE_MODE_DELTA":
+      return UpdateMode.DELTA;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return UpdateMode.UNRECOGNIZED;
+  }
+}
+
+export function updateModeToJSON(object: UpdateMode): string {
+  switch (object) {
+    case UpdateMode.FULL:
+      return "UPDATE_MODE_FULL";
+    case UpdateMode.DELTA:
+      return "UPDATE_MODE_DELTA";
+    case UpdateMode.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** Optional parts of the protocol that the receiver has to enable explicitly. */
+export enum Feature {
+  UNSPECIFIED = 0,
+  /** MEDIA_COMMANDS - The receiver may send MediaCommand messages. */
+  MEDIA_COMMANDS = 1,
+  /**
+   * EMBEDDED_ARTWORK - Images of media may contain embedded image data next to or instead of
+   * a URL. Without this feature the image data is removed
+   * and images without a URL are omitted.
+   */
+  EMBEDDED_ARTWORK = 2,
+  UNRECOGNIZED = -1,
+}
+
+export function featureFromJSON(object: any): Feature {
+  switch (object) {
+    case 0:
+    case "FEATURE_UNSPECIFIED":
+      return Feature.UNSPECIFIED;
+    case 1:
+    case "FEATURE_MEDIA_COMMANDS":
+      return Feature.MEDIA_COMMANDS;
+    case 2:
+    case "FEATURE_EMBEDDED_ARTWORK":
+      return Feature.EMBEDDED_ARTWORK;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return Feature.UNRECOGNIZED;
+  }
+}
+
+export function featureToJSON(object: Feature): string {
+  switch (object) {
+    case Feature.UNSPECIFIED:
+      return "FEATURE_UNSPECIFIED";
+    case Feature.MEDIA_COMMANDS:
+      return "FEATURE_MEDIA_COMMANDS";
+    case Feature.EMBEDDED_ARTWORK:
+      return "FEATURE_EMBEDDED_ARTWORK";
+    case Feature.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
 /** Represents the current state of some active media. */
 export interface MediaState {
   source: MediaState_Source | undefined;
@@ -93,6 +178,22 @@ export interface MediaState {
   playbackState: MediaState_PlaybackState | undefined;
   resourceLinks: MediaState_ResourceLinks | undefined;
   images: MediaState_Image[];
+  /**
+   * Identifies the media across media updates,
+   * so that it can be referred to in a MediaCommand.
+   * The ID stays the same when the track changes
+   * and changes when the page that plays the media navigates.
+   * It is only valid for as long as the extension is running.
+   */
+  id: string;
+  capabilities:
+    | MediaState_Capabilities
+    | undefined;
+  /**
+   * The volume of the media element that plays the media, if there is one.
+   * This is independent of the volume of the browser tab.
+   */
+  volume: MediaState_Volume | undefined;
 }
 
 export interface MediaState_Source {
@@ -135,16 +236,74 @@ export interface MediaState_PlaybackState {
     | undefined;
   /** Whether the media is currently playing. */
   playing: boolean;
+  /**
+   * The playback speed, where 1 is the normal speed.
+   * Only set if it can be determined.
+   */
+  playbackRate?:
+    | number
+    | undefined;
+  /** Whether the media is a live stream, which has no duration. */
+  live: boolean;
+  /**
+   * The range within which a live stream can be seeked,
+   * as it was at the position timestamp. The end is the live edge.
+   * Only set for live streams, if the range can be determined.
+   */
+  seekableRange: MediaState_TimeRange | undefined;
+}
+
+/** A range of playback positions. */
+export interface MediaState_TimeRange {
+  /** The start of the range in seconds. */
+  start: number;
+  /** The end of the range in seconds. */
+  end: number;
+}
+
+export interface MediaState_Volume {
+  /** The volume between 0 and 1. */
+  level: number;
+  muted: boolean;
 }
 
 export interface MediaState_Image {
-  url?: string | undefined;
+  /**
+   * At least one of the URL and the image data is set.
+   * URLs that only exist within the page, like blob: URLs, are omitted
+   * once the image data is embedded.
+   */
+  url?:
+    | string
+    | undefined;
+  /** The embedded image data, only with FEATURE_EMBEDDED_ARTWORK. */
   data?: Uint8Array | undefined;
   mimeType?: string | undefined;
   width?: number | undefined;
   height?: number | undefined;
 }
 
+/** Which controls are available for the media. */
+export interface MediaState_Capabilities {
+  /** Whether the media can be played and paused. */
+  playPause: boolean;
+  /** Whether the media can be rewound to the start. */
+  seekStart: boolean;
+  /** Whether the media can be skipped. */
+  skip: boolean;
+  /**
+   * The media session actions for which the page registered a handler,
+   * e.g. "play", "pause", "seekto", "previoustrack" or "nexttrack".
+   */
+  mediaSessionActions: string[];
+  /** Whether the volume of the media can be changed. */
+  volume: boolean;
+  /** Whether the playback speed of the media can be changed. */
+  playbackRate: boolean;
+  /** Whether the page can skip to the previous track. */
+  previousTrack: boolean;
+}
+
 export interface MediaState_ResourceLinks {
   trackUrl: { [key: string]: string };
   albumUrl: { [key: string]: string };
@@ -166,15 +325,59 @@ export interface MediaState_ResourceLinks_ArtistUrlEntry {
   value: string;
 }
 
+/** A track that was played recently. */
+export interface MediaHistoryEntry {
+  /** The ID of the media that played the track, as in MediaState. */
+  mediaId: string;
+  source: MediaState_Source | undefined;
+  metadata: MediaState_Metadata | undefined;
+  resourceLinks:
+    | MediaState_ResourceLinks
+    | undefined;
+  /** When the track started playing. */
+  startTime:
+    | Date
+    | undefined;
+  /** How long the track has been playing in seconds, excluding pauses. */
+  playedDuration: number;
+}
+
 /**
  * The browser extension connects to the desktop application.
  * The Hello message must be the first message that is sent by the extension.
  * The extension communicates the browser type it is running in,
  * so that the receiver can associate it with the appropriate media
  * that is detected via system APIs.
+ * It also lists the update modes the extension supports,
+ * from which the receiver chooses one in SubscribeMedia.
+ * The receiver chooses a protocol version within the given range
+ * and the features to enable from the supported ones in HelloReply.
  */
 export interface Hello {
   browserType: BrowserType;
+  supportedUpdateModes: UpdateMode[];
+  /** The newest protocol version the extension supports. */
+  protocolVersion: number;
+  /** The oldest protocol version the extension supports. */
+  minProtocolVersion: number;
+  supportedFeatures: Feature[];
+}
+
+/**
+ * The receiver accepts the Hello message.
+ * If the receiver cannot use any of the offered protocol versions,
+ * it closes the connection instead.
+ * The extension closes the connection if the accepted protocol version
+ * is not within the range it offered.
+ */
+export interface HelloReply {
+  /** The protocol version that is used for the rest of the connection. */
+  protocolVersion: number;
+  /**
+   * The features to enable, out of the ones the extension supports.
+   * Unsupported features are ignored.
+   */
+  features: Feature[];
 }
 
 /**
@@ -187,6 +390,8 @@ export interface Hello {
  */
 export interface SubscribeMedia {
   websites: SubscribeMedia_Website[];
+  /** Must be one of the update modes that are listed in the Hello message. */
+  updateMode: UpdateMode;
 }
 
 export interface SubscribeMedia_Website {
@@ -195,6 +400,11 @@ export interface SubscribeMedia_Website {
    * Uses the same reverse domain name notation as in MediaState.Source.
    */
   reverseDomain: string;
+  /**
+   * Whether media from subdomains of the website should be included too.
+   * E.g. "com.youtube" would then also include "com.youtube.music".
+   */
+  includeSubdomains: boolean;
 }
 
 /**
@@ -215,16 +425,161 @@ export interface MediaUpdate {
   media: MediaState[];
 }
 
+/**
+ * Sends the changes since the previous MediaUpdate or MediaUpdateDelta,
+ * keyed by the ID of each media state.
+ */
+export interface MediaUpdateDelta {
+  /** Media that was not part of the previous update. */
+  added: MediaState[];
+  /** The complete new state of media whose state changed. */
+  changed: MediaState[];
+  /** The IDs of media that is not active anymore. */
+  removed: string[];
+}
+
+/**
+ * Controls the playback of specific media.
+ * Media session action handlers that are registered by the web page
+ * are preferred and the media element is controlled otherwise.
+ */
+export interface MediaCommand {
+  /** Chosen by the sender and repeated in the respective MediaCommandResult. */
+  commandId: number;
+  /** The ID of the media to control, as in MediaState. */
+  mediaId: string;
+  action: MediaCommand_Action;
+  /** The playback position to seek to in seconds, for ACTION_SEEK_POSITION. */
+  position?: number | undefined;
+}
+
+export enum MediaCommand_Action {
+  UNSPECIFIED = 0,
+  PLAY = 1,
+  PAUSE = 2,
+  /** SEEK_START - Rewinds to the start of the media. */
+  SEEK_START = 3,
+  /** SEEK_POSITION - Seeks to the position in the position field. */
+  SEEK_POSITION = 4,
+  NEXT_TRACK = 5,
+  /** PREVIOUS_TRACK - Skips to the previous track, if the page supports it. */
+  PREVIOUS_TRACK = 6,
+  UNRECOGNIZED = -1,
+}
+
+export function mediaCommand_ActionFromJSON(object: any): MediaCommand_Action {
+  switch (object) {
+    case 0:
+    case "ACTION_UNSPECIFIED":
+      return MediaCommand_Action.UNSPECIFIED;
+    case 1:
+    case "ACTION_PLAY":
+      return MediaCommand_Action.PLAY;
+    case 2:
+    case "ACTION_PAUSE":
+      return MediaCommand_Action.PAUSE;
+    case 3:
+    case "ACTION_SEEK_START":
+      return MediaCommand_Action.SEEK_START;
+    case 4:
+    case "ACTION_SEEK_POSITION":
+      return MediaCommand_Action.SEEK_POSITION;
+    case 5:
+    case "ACTION_NEXT_TRACK":
+      return MediaCommand_Action.NEXT_TRACK;
+    case 6:
+    case "ACTION_PREVIOUS_TRACK":
+      return MediaCommand_Action.PREVIOUS_TRACK;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return MediaCommand_Action.UNRECOGNIZED;
+  }
+}
+
+export function mediaCommand_ActionToJSON(object: MediaCommand_Action): string {
+  switch (object) {
+    case MediaCommand_Action.UNSPECIFIED:
+      return "ACTION_UNSPECIFIED";
+    case MediaCommand_Action.PLAY:
+      return "ACTION_PLAY";
+    case MediaCommand_Action.PAUSE:
+      return "ACTION_PAUSE";
+    case MediaCommand_Action.SEEK_START:
+      return "ACTION_SEEK_START";
+    case MediaCommand_Action.SEEK_POSITION:
+      return "ACTION_SEEK_POSITION";
+    case MediaCommand_Action.NEXT_TRACK:
+      return "ACTION_NEXT_TRACK";
+    case MediaCommand_Action.PREVIOUS_TRACK:
+      return "ACTION_PREVIOUS_TRACK";
+    case MediaCommand_Action.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/** Acknowledges a MediaCommand. */
+export interface MediaCommandResult {
+  /** The command_id of the acknowledged MediaCommand. */
+  commandId: number;
+  /**
+   * Whether the command was carried out.
+   * This is false if the media does not exist (anymore)
+   * or if it cannot be controlled in the requested way.
+   */
+  ok: boolean;
+  /**
+   * Whether the command was handled by a media session action handler
+   * that was registered by the web page.
+   */
+  handledByPage: boolean;
+}
+
+/**
+ * Requests the most recently played tracks,
+ * e.g. to backfill tracks that were played while the receiver was not connected.
+ */
+export interface GetMediaHistory {
+  /** Only tracks from these websites are returned. */
+  websites: SubscribeMedia_Website[];
+}
+
+/**
+ * Replies to GetMediaHistory with the tracks that were played recently,
+ * ordered from the least to the most recently started track.
+ * The track that is currently playing is included.
+ * The history only covers the time the extension has been running.
+ */
+export interface MediaHistory {
+  entries: MediaHistoryEntry[];
+}
+
 /** Wrapper */
 export interface Message {
   hello?: Hello | undefined;
   subscribeMedia?: SubscribeMedia | undefined;
   cancelMediaSubscription?: CancelMediaSubscription | undefined;
   mediaUpdate?: MediaUpdate | undefined;
+  mediaCommand?: MediaCommand | undefined;
+  mediaCommandResult?: MediaCommandResult | undefined;
+  mediaUpdateDelta?: MediaUpdateDelta | undefined;
+  helloReply?: HelloReply | undefined;
+  getMediaHistory?: GetMediaHistory | undefined;
+  mediaHistory?: MediaHistory | undefined;
 }
 
 function createBaseMediaState(): MediaState {
-  return { source: undefined, metadata: undefined, playbackState: undefined, resourceLinks: undefined, images: [] };
+  return {
+    source: undefined,
+    metadata: undefined,
+    playbackState: undefined,
+    resourceLinks: undefined,
+    images: [],
+    id: "",
+    capabilities: undefined,
+    volume: undefined,
+  };
 }
 
 export const MediaState = {
@@ -241,6 +596,9 @@ export const MediaState = {
       images: globalThis.Array.isArray(object?.images)
         ? object.images.map((e: any) => MediaState_Image.fromJSON(e))
         : [],
+      id: isSet(object.id) ? globalThis.String(object.id) : "",
+      capabilities: isSet(object.capabilities) ? MediaState_Capabilities.fromJSON(object.capabilities) : undefined,
+      volume: isSet(object.volume) ? MediaState_Volume.fromJSON(object.volume) : undefined,
     };
   },
 
@@ -261,6 +619,15 @@ export const MediaState = {
     if (message.images?.length) {
       obj.images = message.images.map((e) => MediaState_Image.toJSON(e));
     }
+    if (message.id !== "") {
+      obj.id = message.id;
+    }
+    if (message.capabilities !== undefined) {
+      obj.capabilities = MediaState_Capabilities.toJSON(message.capabilities);
+    }
+    if (message.volume !== undefined) {
+      obj.volume = MediaState_Volume.toJSON(message.volume);
+    }
     return obj;
   },
 
@@ -282,6 +649,13 @@ export const MediaState = {
       ? MediaState_ResourceLinks.fromPartial(object.resourceLinks)
       : undefined;
     message.images = object.images?.map((e) => MediaState_Image.fromPartial(e)) || [];
+    message.id = object.id ?? "";
+    message.capabilities = (object.capabilities !== undefined && object.capabilities !== null)
+      ? MediaState_Capabilities.fromPartial(object.capabilities)
+      : undefined;
+    message.volume = (object.volume !== undefined && object.volume !== null)
+      ? MediaState_Volume.fromPartial(object.volume)
+      : undefined;
     return message;
   },
 };
@@ -370,7 +744,14 @@ export const MediaState_Metadata = {
 };
 
 function createBaseMediaState_PlaybackState(): MediaState_PlaybackState {
-  return { position: 0, positionTimestamp: undefined, playing: false };
+  return {
+    position: 0,
+    positionTimestamp: undefined,
+    playing: false,
+    playbackRate: undefined,
+    live: false,
+    seekableRange: undefined,
+  };
 }
 
 export const MediaState_PlaybackState = {
@@ -379,6 +760,9 @@ export const MediaState_PlaybackState = {
       position: isSet(object.position) ? globalThis.Number(object.position) : 0,
       positionTimestamp: isSet(object.position_timestamp) ? fromJsonTimestamp(object.position_timestamp) : undefined,
       playing: isSet(object.playing) ? globalThis.Boolean(object.playing) : false,
+      playbackRate: isSet(object.playback_rate) ? globalThis.Number(object.playback_rate) : undefined,
+      live: isSet(object.live) ? globalThis.Boolean(object.live) : false,
+      seekableRange: isSet(object.seekable_range) ? MediaState_TimeRange.fromJSON(object.seekable_range) : undefined,
     };
   },
 
@@ -393,6 +777,15 @@ export const MediaState_PlaybackState = {
     if (message.playing !== false) {
       obj.playing = message.playing;
     }
+    if (message.playbackRate !== undefined) {
+      obj.playback_rate = message.playbackRate;
+    }
+    if (message.live !== false) {
+      obj.live = message.live;
+    }
+    if (message.seekableRange !== undefined) {
+      obj.seekable_range = MediaState_TimeRange.toJSON(message.seekableRange);
+    }
     return obj;
   },
 
@@ -404,6 +797,79 @@ export const MediaState_PlaybackState = {
     message.position = object.position ?? 0;
     message.positionTimestamp = object.positionTimestamp ?? undefined;
     message.playing = object.playing ?? false;
+    message.playbackRate = object.playbackRate ?? undefined;
+    message.live = object.live ?? false;
+    message.seekableRange = (object.seekableRange !== undefined && object.seekableRange !== null)
+      ? MediaState_TimeRange.fromPartial(object.seekableRange)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseMediaState_TimeRange(): MediaState_TimeRange {
+  return { start: 0, end: 0 };
+}
+
+export const MediaState_TimeRange = {
+  fromJSON(object: any): MediaState_TimeRange {
+    return {
+      start: isSet(object.start) ? globalThis.Number(object.start) : 0,
+      end: isSet(object.end) ? globalThis.Number(object.end) : 0,
+    };
+  },
+
+  toJSON(message: MediaState_TimeRange): unknown {
+    const obj: any = {};
+    if (message.start !== 0) {
+      obj.start = message.start;
+    }
+    if (message.end !== 0) {
+      obj.end = message.end;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_TimeRange>, I>>(base?: I): MediaState_TimeRange {
+    return MediaState_TimeRange.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_TimeRange>, I>>(object: I): MediaState_TimeRange {
+    const message = createBaseMediaState_TimeRange();
+    message.start = object.start ?? 0;
+    message.end = object.end ?? 0;
+    return message;
+  },
+};
+
+function createBaseMediaState_Volume(): MediaState_Volume {
+  return { level: 0, muted: false };
+}
+
+export const MediaState_Volume = {
+  fromJSON(object: any): MediaState_Volume {
+    return {
+      level: isSet(object.level) ? globalThis.Number(object.level) : 0,
+      muted: isSet(object.muted) ? globalThis.Boolean(object.muted) : false,
+    };
+  },
+
+  toJSON(message: MediaState_Volume): unknown {
+    const obj: any = {};
+    if (message.level !== 0) {
+      obj.level = message.level;
+    }
+    if (message.muted !== false) {
+      obj.muted = message.muted;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Volume>, I>>(base?: I): MediaState_Volume {
+    return MediaState_Volume.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Volume>, I>>(object: I): MediaState_Volume {
+    const message = createBaseMediaState_Volume();
+    message.level = object.level ?? 0;
+    message.muted = object.muted ?? false;
     return message;
   },
 };
@@ -457,6 +923,75 @@ export const MediaState_Image = {
   },
 };
 
+function createBaseMediaState_Capabilities(): MediaState_Capabilities {
+  return {
+    playPause: false,
+    seekStart: false,
+    skip: false,
+    mediaSessionActions: [],
+    volume: false,
+    playbackRate: false,
+    previousTrack: false,
+  };
+}
+
+export const MediaState_Capabilities = {
+  fromJSON(object: any): MediaState_Capabilities {
+    return {
+      playPause: isSet(object.play_pause) ? globalThis.Boolean(object.play_pause) : false,
+      seekStart: isSet(object.seek_start) ? globalThis.Boolean(object.seek_start) : false,
+      skip: isSet(object.skip) ? globalThis.Boolean(object.skip) : false,
+      mediaSessionActions: globalThis.Array.isArray(object?.media_session_actions)
+        ? object.media_session_actions.map((e: any) => globalThis.String(e))
+        : [],
+      volume: isSet(object.volume) ? globalThis.Boolean(object.volume) : false,
+      playbackRate: isSet(object.playback_rate) ? globalThis.Boolean(object.playback_rate) : false,
+      previousTrack: isSet(object.previous_track) ? globalThis.Boolean(object.previous_track) : false,
+    };
+  },
+
+  toJSON(message: MediaState_Capabilities): unknown {
+    const obj: any = {};
+    if (message.playPause !== false) {
+      obj.play_pause = message.playPause;
+    }
+    if (message.seekStart !== false) {
+      obj.seek_start = message.seekStart;
+    }
+    if (message.skip !== false) {
+      obj.skip = message.skip;
+    }
+    if (message.mediaSessionActions?.length) {
+      obj.media_session_actions = message.mediaSessionActions;
+    }
+    if (message.volume !== false) {
+      obj.volume = message.volume;
+    }
+    if (message.playbackRate !== false) {
+      obj.playback_rate = message.playbackRate;
+    }
+    if (message.previousTrack !== false) {
+      obj.previous_track = message.previousTrack;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaState_Capabilities>, I>>(base?: I): MediaState_Capabilities {
+    return MediaState_Capabilities.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaState_Capabilities>, I>>(object: I): MediaState_Capabilities {
+    const message = createBaseMediaState_Capabilities();
+    message.playPause = object.playPause ?? false;
+    message.seekStart = object.seekStart ?? false;
+    message.skip = object.skip ?? false;
+    message.mediaSessionActions = object.mediaSessionActions?.map((e) => e) || [];
+    message.volume = object.volume ?? false;
+    message.playbackRate = object.playbackRate ?? false;
+    message.previousTrack = object.previousTrack ?? false;
+    return message;
+  },
+};
+
 function createBaseMediaState_ResourceLinks(): MediaState_ResourceLinks {
   return { trackUrl: {}, albumUrl: {}, artistUrl: {} };
 }
@@ -661,13 +1196,92 @@ export const MediaState_ResourceLinks_ArtistUrlEntry = {
   },
 };
 
+function createBaseMediaHistoryEntry(): MediaHistoryEntry {
+  return {
+    mediaId: "",
+    source: undefined,
+    metadata: undefined,
+    resourceLinks: undefined,
+    startTime: undefined,
+    playedDuration: 0,
+  };
+}
+
+export const MediaHistoryEntry = {
+  fromJSON(object: any): MediaHistoryEntry {
+    return {
+      mediaId: isSet(object.media_id) ? globalThis.String(object.media_id) : "",
+      source: isSet(object.source) ? MediaState_Source.fromJSON(object.source) : undefined,
+      metadata: isSet(object.metadata) ? MediaState_Metadata.fromJSON(object.metadata) : undefined,
+      resourceLinks: isSet(object.resource_links)
+        ? MediaState_ResourceLinks.fromJSON(object.resource_links)
+        : undefined,
+      startTime: isSet(object.start_time) ? fromJsonTimestamp(object.start_time) : undefined,
+      playedDuration: isSet(object.played_duration) ? globalThis.Number(object.played_duration) : 0,
+    };
+  },
+
+  toJSON(message: MediaHistoryEntry): unknown {
+    const obj: any = {};
+    if (message.mediaId !== "") {
+      obj.media_id = message.mediaId;
+    }
+    if (message.source !== undefined) {
+      obj.source = MediaState_Source.toJSON(message.source);
+    }
+    if (message.metadata !== undefined) {
+      obj.metadata = MediaState_Metadata.toJSON(message.metadata);
+    }
+    if (message.resourceLinks !== undefined) {
+      obj.resource_links = MediaState_ResourceLinks.toJSON(message.resourceLinks);
+    }
+    if (message.startTime !== undefined) {
+      obj.start_time = message.startTime.toISOString();
+    }
+    if (message.playedDuration !== 0) {
+      obj.played_duration = message.playedDuration;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaHistoryEntry>, I>>(base?: I): MediaHistoryEntry {
+    return MediaHistoryEntry.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaHistoryEntry>, I>>(object: I): MediaHistoryEntry {
+    const message = createBaseMediaHistoryEntry();
+    message.mediaId = object.mediaId ?? "";
+    message.source = (object.source !== undefined && object.source !== null)
+      ? MediaState_Source.fromPartial(object.source)
+      : undefined;
+    message.metadata = (object.metadata !== undefined && object.metadata !== null)
+      ? MediaState_Metadata.fromPartial(object.metadata)
+      : undefined;
+    message.resourceLinks = (object.resourceLinks !== undefined && object.resourceLinks !== null)
+      ? MediaState_ResourceLinks.fromPartial(object.resourceLinks)
+      : undefined;
+    message.startTime = object.startTime ?? undefined;
+    message.playedDuration = object.playedDuration ?? 0;
+    return message;
+  },
+};
+
 function createBaseHello(): Hello {
-  return { browserType: 0 };
+  return { browserType: 0, supportedUpdateModes: [], protocolVersion: 0, minProtocolVersion: 0, supportedFeatures: [] };
 }
 
 export const Hello = {
   fromJSON(object: any): Hello {
-    return { browserType: isSet(object.browser_type) ? browserTypeFromJSON(object.browser_type) : 0 };
+    return {
+      browserType: isSet(object.browser_type) ? browserTypeFromJSON(object.browser_type) : 0,
+      supportedUpdateModes: globalThis.Array.isArray(object?.supported_update_modes)
+        ? object.supported_update_modes.map((e: any) => updateModeFromJSON(e))
+        : [],
+      protocolVersion: isSet(object.protocol_version) ? globalThis.Number(object.protocol_version) : 0,
+      minProtocolVersion: isSet(object.min_protocol_version) ? globalThis.Number(object.min_protocol_version) : 0,
+      supportedFeatures: globalThis.Array.isArray(object?.supported_features)
+        ? object.supported_features.map((e: any) => featureFromJSON(e))
+        : [],
+    };
   },
 
   toJSON(message: Hello): unknown {
@@ -675,6 +1289,18 @@ export const Hello = {
     if (message.browserType !== 0) {
       obj.browser_type = browserTypeToJSON(message.browserType);
     }
+    if (message.supportedUpdateModes?.length) {
+      obj.supported_update_modes = message.supportedUpdateModes.map((e) => updateModeToJSON(e));
+    }
+    if (message.protocolVersion !== 0) {
+      obj.protocol_version = Math.round(message.protocolVersion);
+    }
+    if (message.minProtocolVersion !== 0) {
+      obj.min_protocol_version = Math.round(message.minProtocolVersion);
+    }
+    if (message.supportedFeatures?.length) {
+      obj.supported_features = message.supportedFeatures.map((e) => featureToJSON(e));
+    }
     return obj;
   },
 
@@ -684,12 +1310,50 @@ export const Hello = {
   fromPartial<I extends Exact<DeepPartial<Hello>, I>>(object: I): Hello {
     const message = createBaseHello();
     message.browserType = object.browserType ?? 0;
+    message.supportedUpdateModes = object.supportedUpdateModes?.map((e) => e) || [];
+    message.protocolVersion = object.protocolVersion ?? 0;
+    message.minProtocolVersion = object.minProtocolVersion ?? 0;
+    message.supportedFeatures = object.supportedFeatures?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseHelloReply(): HelloReply {
+  return { protocolVersion: 0, features: [] };
+}
+
+export const HelloReply = {
+  fromJSON(object: any): HelloReply {
+    return {
+      protocolVersion: isSet(object.protocol_version) ? globalThis.Number(object.protocol_version) : 0,
+      features: globalThis.Array.isArray(object?.features) ? object.features.map((e: any) => featureFromJSON(e)) : [],
+    };
+  },
+
+  toJSON(message: HelloReply): unknown {
+    const obj: any = {};
+    if (message.protocolVersion !== 0) {
+      obj.protocol_version = Math.round(message.protocolVersion);
+    }
+    if (message.features?.length) {
+      obj.features = message.features.map((e) => featureToJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<HelloReply>, I>>(base?: I): HelloReply {
+    return HelloReply.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<HelloReply>, I>>(object: I): HelloReply {
+    const message = createBaseHelloReply();
+    message.protocolVersion = object.protocolVersion ?? 0;
+    message.features = object.features?.map((e) => e) || [];
     return message;
   },
 };
 
 function createBaseSubscribeMedia(): SubscribeMedia {
-  return { websites: [] };
+  return { websites: [], updateMode: 0 };
 }
 
 export const SubscribeMedia = {
@@ -698,6 +1362,7 @@ export const SubscribeMedia = {
       websites: globalThis.Array.isArray(object?.websites)
         ? object.websites.map((e: any) => SubscribeMedia_Website.fromJSON(e))
         : [],
+      updateMode: isSet(object.update_mode) ? updateModeFromJSON(object.update_mode) : 0,
     };
   },
 
@@ -706,6 +1371,9 @@ export const SubscribeMedia = {
     if (message.websites?.length) {
       obj.websites = message.websites.map((e) => SubscribeMedia_Website.toJSON(e));
     }
+    if (message.updateMode !== 0) {
+      obj.update_mode = updateModeToJSON(message.updateMode);
+    }
     return obj;
   },
 
@@ -715,17 +1383,21 @@ export const SubscribeMedia = {
   fromPartial<I extends Exact<DeepPartial<SubscribeMedia>, I>>(object: I): SubscribeMedia {
     const message = createBaseSubscribeMedia();
     message.websites = object.websites?.map((e) => SubscribeMedia_Website.fromPartial(e)) || [];
+    message.updateMode = object.updateMode ?? 0;
     return message;
   },
 };
 
 function createBaseSubscribeMedia_Website(): SubscribeMedia_Website {
-  return { reverseDomain: "" };
+  return { reverseDomain: "", includeSubdomains: false };
 }
 
 export const SubscribeMedia_Website = {
   fromJSON(object: any): SubscribeMedia_Website {
-    return { reverseDomain: isSet(object.reverse_domain) ? globalThis.String(object.reverse_domain) : "" };
+    return {
+      reverseDomain: isSet(object.reverse_domain) ? globalThis.String(object.reverse_domain) : "",
+      includeSubdomains: isSet(object.include_subdomains) ? globalThis.Boolean(object.include_subdomains) : false,
+    };
   },
 
   toJSON(message: SubscribeMedia_Website): unknown {
@@ -733,6 +1405,9 @@ export const SubscribeMedia_Website = {
     if (message.reverseDomain !== "") {
       obj.reverse_domain = message.reverseDomain;
     }
+    if (message.includeSubdomains !== false) {
+      obj.include_subdomains = message.includeSubdomains;
+    }
     return obj;
   },
 
@@ -742,6 +1417,7 @@ export const SubscribeMedia_Website = {
   fromPartial<I extends Exact<DeepPartial<SubscribeMedia_Website>, I>>(object: I): SubscribeMedia_Website {
     const message = createBaseSubscribeMedia_Website();
     message.reverseDomain = object.reverseDomain ?? "";
+    message.includeSubdomains = object.includeSubdomains ?? false;
     return message;
   },
 };
@@ -798,8 +1474,203 @@ export const MediaUpdate = {
   },
 };
 
+function createBaseMediaUpdateDelta(): MediaUpdateDelta {
+  return { added: [], changed: [], removed: [] };
+}
+
+export const MediaUpdateDelta = {
+  fromJSON(object: any): MediaUpdateDelta {
+    return {
+      added: globalThis.Array.isArray(object?.added) ? object.added.map((e: any) => MediaState.fromJSON(e)) : [],
+      changed: globalThis.Array.isArray(object?.changed) ? object.changed.map((e: any) => MediaState.fromJSON(e)) : [],
+      removed: globalThis.Array.isArray(object?.removed) ? object.removed.map((e: any) => globalThis.String(e)) : [],
+    };
+  },
+
+  toJSON(message: MediaUpdateDelta): unknown {
+    const obj: any = {};
+    if (message.added?.length) {
+      obj.added = message.added.map((e) => MediaState.toJSON(e));
+    }
+    if (message.changed?.length) {
+      obj.changed = message.changed.map((e) => MediaState.toJSON(e));
+    }
+    if (message.removed?.length) {
+      obj.removed = message.removed;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaUpdateDelta>, I>>(base?: I): MediaUpdateDelta {
+    return MediaUpdateDelta.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaUpdateDelta>, I>>(object: I): MediaUpdateDelta {
+    const message = createBaseMediaUpdateDelta();
+    message.added = object.added?.map((e) => MediaState.fromPartial(e)) || [];
+    message.changed = object.changed?.map((e) => MediaState.fromPartial(e)) || [];
+    message.removed = object.removed?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseMediaCommand(): MediaCommand {
+  return { commandId: 0, mediaId: "", action: 0, position: undefined };
+}
+
+export const MediaCommand = {
+  fromJSON(object: any): MediaCommand {
+    return {
+      commandId: isSet(object.command_id) ? globalThis.Number(object.command_id) : 0,
+      mediaId: isSet(object.media_id) ? globalThis.String(object.media_id) : "",
+      action: isSet(object.action) ? mediaCommand_ActionFromJSON(object.action) : 0,
+      position: isSet(object.position) ? globalThis.Number(object.position) : undefined,
+    };
+  },
+
+  toJSON(message: MediaCommand): unknown {
+    const obj: any = {};
+    if (message.commandId !== 0) {
+      obj.command_id = Math.round(message.commandId);
+    }
+    if (message.mediaId !== "") {
+      obj.media_id = message.mediaId;
+    }
+    if (message.action !== 0) {
+      obj.action = mediaCommand_ActionToJSON(message.action);
+    }
+    if (message.position !== undefined) {
+      obj.position = message.position;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaCommand>, I>>(base?: I): MediaCommand {
+    return MediaCommand.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaCommand>, I>>(object: I): MediaCommand {
+    const message = createBaseMediaCommand();
+    message.commandId = object.commandId ?? 0;
+    message.mediaId = object.mediaId ?? "";
+    message.action = object.action ?? 0;
+    message.position = object.position ?? undefined;
+    return message;
+  },
+};
+
+function createBaseMediaCommandResult(): MediaCommandResult {
+  return { commandId: 0, ok: false, handledByPage: false };
+}
+
+export const MediaCommandResult = {
+  fromJSON(object: any): MediaCommandResult {
+    return {
+      commandId: isSet(object.command_id) ? globalThis.Number(object.command_id) : 0,
+      ok: isSet(object.ok) ? globalThis.Boolean(object.ok) : false,
+      handledByPage: isSet(object.handled_by_page) ? globalThis.Boolean(object.handled_by_page) : false,
+    };
+  },
+
+  toJSON(message: MediaCommandResult): unknown {
+    const obj: any = {};
+    if (message.commandId !== 0) {
+      obj.command_id = Math.round(message.commandId);
+    }
+    if (message.ok !== false) {
+      obj.ok = message.ok;
+    }
+    if (message.handledByPage !== false) {
+      obj.handled_by_page = message.handledByPage;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaCommandResult>, I>>(base?: I): MediaCommandResult {
+    return MediaCommandResult.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaCommandResult>, I>>(object: I): MediaCommandResult {
+    const message = createBaseMediaCommandResult();
+    message.commandId = object.commandId ?? 0;
+    message.ok = object.ok ?? false;
+    message.handledByPage = object.handledByPage ?? false;
+    return message;
+  },
+};
+
+function createBaseGetMediaHistory(): GetMediaHistory {
+  return { websites: [] };
+}
+
+export const GetMediaHistory = {
+  fromJSON(object: any): GetMediaHistory {
+    return {
+      websites: globalThis.Array.isArray(object?.websites)
+        ? object.websites.map((e: any) => SubscribeMedia_Website.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: GetMediaHistory): unknown {
+    const obj: any = {};
+    if (message.websites?.length) {
+      obj.websites = message.websites.map((e) => SubscribeMedia_Website.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<GetMediaHistory>, I>>(base?: I): GetMediaHistory {
+    return GetMediaHistory.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<GetMediaHistory>, I>>(object: I): GetMediaHistory {
+    const message = createBaseGetMediaHistory();
+    message.websites = object.websites?.map((e) => SubscribeMedia_Website.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseMediaHistory(): MediaHistory {
+  return { entries: [] };
+}
+
+export const MediaHistory = {
+  fromJSON(object: any): MediaHistory {
+    return {
+      entries: globalThis.Array.isArray(object?.entries)
+        ? object.entries.map((e: any) => MediaHistoryEntry.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: MediaHistory): unknown {
+    const obj: any = {};
+    if (message.entries?.length) {
+      obj.entries = message.entries.map((e) => MediaHistoryEntry.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<MediaHistory>, I>>(base?: I): MediaHistory {
+    return MediaHistory.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<MediaHistory>, I>>(object: I): MediaHistory {
+    const message = createBaseMediaHistory();
+    message.entries = object.entries?.map((e) => MediaHistoryEntry.fromPartial(e)) || [];
+    return message;
+  },
+};
+
 function createBaseMessage(): Message {
-  return { hello: undefined, subscribeMedia: undefined, cancelMediaSubscription: undefined, mediaUpdate: undefined };
+  return {
+    hello: undefined,
+    subscribeMedia: undefined,
+    cancelMediaSubscription: undefined,
+    mediaUpdate: undefined,
+    mediaCommand: undefined,
+    mediaCommandResult: undefined,
+    mediaUpdateDelta: undefined,
+    helloReply: undefined,
+    getMediaHistory: undefined,
+    mediaHistory: undefined,
+  };
 }
 
 export const Message = {
@@ -811,6 +1682,16 @@ export const Message = {
         ? CancelMediaSubscription.fromJSON(object.cancel_media_subscription)
         : undefined,
       mediaUpdate: isSet(object.media_update) ? MediaUpdate.fromJSON(object.media_update) : undefined,
+      mediaCommand: isSet(object.media_command) ? MediaCommand.fromJSON(object.media_command) : undefined,
+      mediaCommandResult: isSet(object.media_command_result)
+        ? MediaCommandResult.fromJSON(object.media_command_result)
+        : undefined,
+      mediaUpdateDelta: isSet(object.media_update_delta)
+        ? MediaUpdateDelta.fromJSON(object.media_update_delta)
+        : undefined,
+      helloReply: isSet(object.hello_reply) ? HelloReply.fromJSON(object.hello_reply) : undefined,
+      getMediaHistory: isSet(object.get_media_history) ? GetMediaHistory.fromJSON(object.get_media_history) : undefined,
+      mediaHistory: isSet(object.media_history) ? MediaHistory.fromJSON(object.media_history) : undefined,
     };
   },
 
@@ -828,6 +1709,24 @@ export const Message = {
     if (message.mediaUpdate !== undefined) {
       obj.media_update = MediaUpdate.toJSON(message.mediaUpdate);
     }
+    if (message.mediaCommand !== undefined) {
+      obj.media_command = MediaCommand.toJSON(message.mediaCommand);
+    }
+    if (message.mediaCommandResult !== undefined) {
+      obj.media_command_result = MediaCommandResult.toJSON(message.mediaCommandResult);
+    }
+    if (message.mediaUpdateDelta !== undefined) {
+      obj.media_update_delta = MediaUpdateDelta.toJSON(message.mediaUpdateDelta);
+    }
+    if (message.helloReply !== undefined) {
+      obj.hello_reply = HelloReply.toJSON(message.helloReply);
+    }
+    if (message.getMediaHistory !== undefined) {
+      obj.get_media_history = GetMediaHistory.toJSON(message.getMediaHistory);
+    }
+    if (message.mediaHistory !== undefined) {
+      obj.media_history = MediaHistory.toJSON(message.mediaHistory);
+    }
     return obj;
   },
 
@@ -847,6 +1746,24 @@ export const Message = {
     message.mediaUpdate = (object.mediaUpdate !== undefined && object.mediaUpdate !== null)
       ? MediaUpdate.fromPartial(object.mediaUpdate)
       : undefined;
+    message.mediaCommand = (object.mediaCommand !== undefined && object.mediaCommand !== null)
+      ? MediaCommand.fromPartial(object.mediaCommand)
+      : undefined;
+    message.mediaCommandResult = (object.mediaCommandResult !== undefined && object.mediaCommandResult !== null)
+      ? MediaCommandResult.fromPartial(object.mediaCommandResult)
+      : undefined;
+    message.mediaUpdateDelta = (object.mediaUpdateDelta !== undefined && object.mediaUpdateDelta !== null)
+      ? MediaUpdateDelta.fromPartial(object.mediaUpdateDelta)
+      : undefined;
+    message.helloReply = (object.helloReply !== undefined && object.helloReply !== null)
+      ? HelloReply.fromPartial(object.helloReply)
+      : undefined;
+    message.getMediaHistory = (object.getMediaHistory !== undefined && object.getMediaHistory !== null)
+      ? GetMediaHistory.fromPartial(object.getMediaHistory)
+      : undefined;
+    message.mediaHistory = (object.mediaHistory !== undefined && object.mediaHistory !== null)
+      ? MediaHistory.fromPartial(object.mediaHistory)
+      : undefined;
     return message;
   },
 };
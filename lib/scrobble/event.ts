@@ -0,0 +1,30 @@
+export enum ScrobbleEventType {
+  /**
+   * A track started playing.
+   */
+  NowPlaying = "now_playing",
+  /**
+   * A track has been played long enough to count as listened to.
+   */
+  Scrobble = "scrobble",
+}
+
+export interface ScrobbleEvent {
+  type: ScrobbleEventType
+  title: string
+  artist?: string
+  album?: string
+  // The length of the track in seconds, if known.
+  duration?: number
+  // The website the track was played on, in reverse domain notation.
+  reverseDomain: string
+  siteUrl: string
+  // The time the track started playing, in seconds since the Unix epoch.
+  timestamp: number
+}
+
+export interface QueuedScrobbleEvent {
+  // The ID of the sink the event has to be delivered to.
+  sink: string
+  event: ScrobbleEvent
+}
@@ -0,0 +1,87 @@
+import { scrobbleQueue } from "../util/storage";
+import { QueuedScrobbleEvent, ScrobbleEvent } from "./event";
+import { IScrobbleSink } from "./sinks";
+
+// How often delivery of queued scrobbles is retried.
+const RETRY_INTERVAL = 60 * 1000;
+// The maximum number of queued scrobbles. The oldest ones are dropped.
+const MAX_QUEUE_SIZE = 1000;
+
+/**
+ * Returns the sinks that are currently enabled.
+ */
+export type ScrobbleSinkProvider = () => Promise<IScrobbleSink[]>;
+
+/**
+ * Delivers scrobble events to all enabled sinks.
+ * Scrobbles are queued in the extension's storage until they were delivered,
+ * so that they survive when a sink is offline or the extension restarts.
+ * Now playing events are only relevant at the time they are sent,
+ * so they are delivered at most once and never queued.
+ */
+export class ScrobbleQueue {
+
+  // Serializes all changes to the queue in storage and all deliveries,
+  // since sinks like the local log are not safe for concurrent writes.
+  private pending: Promise<void> = Promise.resolve()
+  private retryTimeout: NodeJS.Timeout | null = null
+
+  constructor(private readonly sinks: ScrobbleSinkProvider) { }
+
+  nowPlaying(event: ScrobbleEvent) {
+    this.#enqueue(async () => {
+      for (const sink of await this.sinks()) {
+        await sink.send(event);
+      }
+    });
+  }
+
+  scrobble(event: ScrobbleEvent) {
+    this.#enqueue(async () => {
+      const queue = await scrobbleQueue.getValue();
+      for (const sink of await this.sinks()) {
+        queue.push({ sink: sink.id, event });
+      }
+      await scrobbleQueue.setValue(queue.slice(-MAX_QUEUE_SIZE));
+    });
+    this.flush();
+  }
+
+  /**
+   * Delivers all queued scrobbles, in the order they were queued.
+   * Scrobbles for sinks that are not enabled anymore are dropped.
+   */
+  flush() {
+    this.#enqueue(async () => {
+      if (this.retryTimeout !== null) {
+        clearTimeout(this.retryTimeout);
+        this.retryTimeout = null;
+      }
+      const sinks = new Map((await this.sinks()).map(sink => [sink.id, sink]));
+      const queue = await scrobbleQueue.getValue();
+      const remaining: QueuedScrobbleEvent[] = [];
+      const failedSinks = new Set<string>();
+      for (const item of queue) {
+        const sink = sinks.get(item.sink);
+        if (sink === undefined) {
+          continue;
+        }
+        // Keep the order of scrobbles for a sink that is unavailable.
+        if (failedSinks.has(item.sink) || !await sink.send(item.event)) {
+          failedSinks.add(item.sink);
+          remaining.push(item);
+        }
+      }
+      await scrobbleQueue.setValue(remaining);
+      if (remaining.length > 0) {
+        this.retryTimeout = setTimeout(this.flush.bind(this), RETRY_INTERVAL);
+      }
+    });
+  }
+
+  #enqueue(task: () => Promise<void>) {
+    this.pending = this.pending.then(task).catch(e => {
+      console.error("Failed to process the scrobble queue", e);
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { BrowserMedia } from "../proto";
+import { PlaybackStateSource } from "../tab-media/playback-state-source";
+import { ScrobbleQueue } from "./queue";
+import { Scrobbler, scrobbleThreshold } from "./scrobbler";
+
+const MEDIA_ID = "media";
+
+function mediaState(
+  playing: boolean,
+  metadata: Partial<BrowserMedia.MediaState_Metadata> = {},
+  playbackState: Partial<BrowserMedia.MediaState_PlaybackState> = {},
+): BrowserMedia.MediaState {
+  return BrowserMedia.MediaState.fromPartial({
+    source: { reverseDomain: "com.example", siteUrl: "https://example.com/" },
+    metadata: { title: "Title", artist: "Artist", duration: 200, ...metadata },
+    playbackState: { playing, ...playbackState },
+  });
+}
+
+function fakeQueue() {
+  return {
+    nowPlaying: vi.fn(),
+    scrobble: vi.fn(),
+  };
+}
+
+describe("scrobbleThreshold", () => {
+
+  test("is half of the duration", () => {
+    expect(scrobbleThreshold(200)).toBe(100 * 1000);
+  });
+
+  test("is at most 4 minutes", () => {
+    expect(scrobbleThreshold(3600)).toBe(4 * 60 * 1000);
+  });
+
+  test("is null for short tracks", () => {
+    expect(scrobbleThreshold(29)).toBeNull();
+    expect(scrobbleThreshold(30)).toBe(15 * 1000);
+  });
+
+  test("is null when the duration is unknown", () => {
+    expect(scrobbleThreshold(undefined)).toBeNull();
+  });
+});
+
+describe("Scrobbler", () => {
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function scrobbler(queue: ReturnType<typeof fakeQueue>): Scrobbler {
+    return new Scrobbler(queue as unknown as ScrobbleQueue);
+  }
+
+  test("scrobbles a track after half of its duration", () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    expect(queue.nowPlaying).toHaveBeenCalledOnce();
+    vi.advanceTimersByTime(99 * 1000);
+    expect(queue.scrobble).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(queue.scrobble).toHaveBeenCalledOnce();
+    expect(queue.scrobble.mock.calls[0][0]).toMatchObject({ title: "Title", artist: "Artist" });
+  });
+
+  test("does not count pauses", () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(60 * 1000);
+    subject.update(MEDIA_ID, mediaState(false), PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(600 * 1000);
+    expect(queue.scrobble).not.toHaveBeenCalled();
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(39 * 1000);
+    expect(queue.scrobble).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(queue.scrobble).toHaveBeenCalledOnce();
+    expect(queue.nowPlaying).toHaveBeenCalledOnce();
+  });
+
+  test("scrobbles a track only once", () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(150 * 1000);
+    subject.update(MEDIA_ID, mediaState(true, {}, { position: 10 }),
+      PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(150 * 1000);
+    expect(queue.scrobble).toHaveBeenCalledOnce();
+  });
+
+  test("starts over when the track changes", () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(60 * 1000);
+    subject.update(MEDIA_ID, mediaState(true, { title: "Other" }),
+      PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(60 * 1000);
+    expect(queue.scrobble).not.toHaveBeenCalled();
+    expect(queue.nowPlaying).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops when the media is removed", () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    subject.update(MEDIA_ID, null, PlaybackStateSource.MediaElement);
+    vi.advanceTimersByTime(600 * 1000);
+    expect(queue.scrobble).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    ["without an artist", mediaState(true, { artist: undefined }), PlaybackStateSource.MediaElement],
+    ["without a duration", mediaState(true, { duration: undefined }), PlaybackStateSource.MediaElement],
+    ["of a live stream", mediaState(true, {}, { live: true }), PlaybackStateSource.MediaElement],
+    ["with an estimated position", mediaState(true), PlaybackStateSource.Estimated],
+    ["with a progress element", mediaState(true), PlaybackStateSource.ProgressElementSeconds],
+    ["with only media session metadata", mediaState(true), PlaybackStateSource.MediaSessionMetadata],
+    ["of a video call", BrowserMedia.MediaState.fromPartial({
+      ...mediaState(true),
+      capabilities: { mediaSessionActions: ["hangup"] },
+    }), PlaybackStateSource.MediaElement],
+  ])("ignores media %s", (_, state, source) => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, state, source);
+    vi.advanceTimersByTime(600 * 1000);
+    expect(queue.nowPlaying).not.toHaveBeenCalled();
+    expect(queue.scrobble).not.toHaveBeenCalled();
+  });
+
+  test("continues a track after a restart", async () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    subject.update(MEDIA_ID, mediaState(false), PlaybackStateSource.MediaElement);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const restartedQueue = fakeQueue();
+    const restarted = scrobbler(restartedQueue);
+    await restarted.restore();
+    restarted.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    expect(restartedQueue.nowPlaying).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(40 * 1000);
+    expect(restartedQueue.scrobble).toHaveBeenCalledOnce();
+  });
+
+  test("does not scrobble a track again after a restart", async () => {
+    const queue = fakeQueue();
+    const subject = scrobbler(queue);
+    subject.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    await vi.advanceTimersByTimeAsync(101 * 1000);
+    expect(queue.scrobble).toHaveBeenCalledOnce();
+
+    const restartedQueue = fakeQueue();
+    const restarted = scrobbler(restartedQueue);
+    await restarted.restore();
+    restarted.update(MEDIA_ID, mediaState(true), PlaybackStateSource.MediaElement);
+    await vi.advanceTimersByTimeAsync(600 * 1000);
+    expect(restartedQueue.nowPlaying).not.toHaveBeenCalled();
+    expect(restartedQueue.scrobble).not.toHaveBeenCalled();
+  });
+});
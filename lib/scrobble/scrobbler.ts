@@ -0,0 +1,226 @@
+import { BrowserMedia } from "../proto";
+import { PlaybackStateSource } from "../tab-media/playback-state-source";
+import { persistedScrobbleTracks } from "../util/storage";
+import { ScrobbleEvent, ScrobbleEventType } from "./event";
+import { ScrobbleQueue } from "./queue";
+
+// Tracks that are shorter than this are never scrobbled.
+const MIN_TRACK_DURATION = 30 * 1000;
+// A track is scrobbled once it has been played for half of its duration
+// or for this long, whichever happens first.
+const MAX_SCROBBLE_THRESHOLD = 4 * 60 * 1000;
+
+// Only the playback state of media elements, or the one the page reports
+// for them, tells reliably how long a track has been played.
+const SCROBBLE_PLAYBACK_STATE_SOURCES = [
+  PlaybackStateSource.MediaElement,
+  PlaybackStateSource.MediaSessionPositionState,
+];
+
+// How long to wait for further changes before persisting the tracks.
+const PERSIST_DELAY = 100;
+
+interface ScrobbleTrack {
+  event: ScrobbleEvent
+  // How long the track has been playing, excluding pauses.
+  playedTime: number
+  // The time since which the track is playing, if it is playing.
+  playingSince: number | null
+  nowPlayingSent: boolean
+  scrobbled: boolean
+  timeout: NodeJS.Timeout | null
+}
+
+/**
+ * Decides when tracks are scrobbled, following the rules of Last.fm:
+ * A track is scrobbled once it has been played for more than half
+ * of its duration or for more than 4 minutes, not counting pauses.
+ * The tracks are persisted, so that the background script can be suspended.
+ */
+export class Scrobbler {
+
+  // The current track of each media, keyed by media ID.
+  private tracks: Map<string, ScrobbleTrack> = new Map()
+  private persistTimeout: NodeJS.Timeout | null = null
+
+  constructor(private readonly queue: ScrobbleQueue) { }
+
+  /**
+   * Restores the tracks from before the background script was suspended.
+   * Must be called before any updates are processed.
+   */
+  async restore() {
+    const now = Date.now();
+    for (const { mediaId, ...persisted } of await persistedScrobbleTracks.getValue()) {
+      const track = { ...persisted, timeout: null };
+      this.tracks.set(mediaId, track);
+      this.#accumulate(track, now);
+      this.#schedule(track);
+    }
+  }
+
+  /**
+   * Processes a new state of the media with the given ID.
+   *
+   * @param state The current state of the media or null,
+   * if the media is not active anymore.
+   * @param source Where the playback state of the media was read from.
+   */
+  update(
+    mediaId: string,
+    state: BrowserMedia.MediaState | null,
+    source: PlaybackStateSource,
+  ) {
+    const now = Date.now();
+    let track = this.tracks.get(mediaId);
+    const scrobbleable = state !== null && isScrobbleable(state, source);
+    if (track !== undefined) {
+      this.#accumulate(track, now);
+      if (!scrobbleable || !isSameTrack(track.event, state.metadata!)) {
+        this.#removeTrack(mediaId, track);
+        track = undefined;
+      }
+    }
+    if (!scrobbleable) {
+      this.#persist();
+      return;
+    }
+    const metadata = state.metadata!;
+    if (track === undefined) {
+      track = {
+        event: {
+          type: ScrobbleEventType.NowPlaying,
+          title: metadata.title,
+          artist: metadata.artist,
+          album: metadata.album,
+          reverseDomain: state.source!.reverseDomain,
+          siteUrl: state.source!.siteUrl,
+          timestamp: Math.floor(now / 1000),
+        },
+        playedTime: 0,
+        playingSince: null,
+        nowPlayingSent: false,
+        scrobbled: false,
+        timeout: null,
+      };
+      this.tracks.set(mediaId, track);
+    }
+    // The duration might only be known after the track started.
+    track.event.duration = metadata.duration;
+    const playing = state.playbackState?.playing ?? false;
+    track.playingSince = playing ? now : null;
+    if (playing && !track.nowPlayingSent) {
+      track.nowPlayingSent = true;
+      this.queue.nowPlaying({ ...track.event, type: ScrobbleEventType.NowPlaying });
+    }
+    this.#schedule(track);
+    this.#persist();
+  }
+
+  #accumulate(track: ScrobbleTrack, now: number) {
+    if (track.playingSince !== null) {
+      track.playedTime += now - track.playingSince;
+      track.playingSince = now;
+    }
+  }
+
+  #removeTrack(mediaId: string, track: ScrobbleTrack) {
+    if (track.timeout !== null) {
+      clearTimeout(track.timeout);
+    }
+    this.tracks.delete(mediaId);
+  }
+
+  /**
+   * Scrobbles the track once it has been played long enough,
+   * which is checked again when the time is up, if it is still playing.
+   */
+  #schedule(track: ScrobbleTrack) {
+    if (track.timeout !== null) {
+      clearTimeout(track.timeout);
+      track.timeout = null;
+    }
+    const threshold = scrobbleThreshold(track.event.duration);
+    if (track.scrobbled || threshold === null) {
+      return;
+    }
+    if (track.playedTime >= threshold) {
+      track.scrobbled = true;
+      this.queue.scrobble({ ...track.event, type: ScrobbleEventType.Scrobble });
+      this.#persist();
+      return;
+    }
+    if (track.playingSince === null) {
+      return;
+    }
+    track.timeout = setTimeout(() => {
+      track.timeout = null;
+      this.#accumulate(track, Date.now());
+      this.#schedule(track);
+    }, threshold - track.playedTime);
+  }
+
+  /**
+   * Mirrors the tracks into session storage.
+   * Multiple changes in short succession are persisted at once.
+   */
+  #persist() {
+    if (this.persistTimeout !== null) {
+      return;
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      persistedScrobbleTracks.setValue([...this.tracks].map(([mediaId, track]) => ({
+        mediaId,
+        event: track.event,
+        playedTime: track.playedTime,
+        playingSince: track.playingSince,
+        nowPlayingSent: track.nowPlayingSent,
+        scrobbled: track.scrobbled,
+      }))).catch(e => {
+        console.error("Failed to persist the scrobbled tracks", e);
+      });
+    }, PERSIST_DELAY);
+  }
+}
+
+/**
+ * Returns for how many milliseconds a track has to be played
+ * until it is scrobbled, or null if it must not be scrobbled.
+ *
+ * @param duration The duration of the track in seconds, if known.
+ */
+export function scrobbleThreshold(duration: number | undefined): number | null {
+  if (duration === undefined || duration * 1000 < MIN_TRACK_DURATION) {
+    return null;
+  }
+  return Math.min(duration * 1000 / 2, MAX_SCROBBLE_THRESHOLD);
+}
+
+/**
+ * Whether the media is a track that can be scrobbled. Media without an artist
+ * is e.g. a video or a page that only set its title, and media without
+ * a known duration is e.g. a live stream or the audio of a game.
+ */
+function isScrobbleable(
+  state: BrowserMedia.MediaState,
+  source: PlaybackStateSource,
+): boolean {
+  return state.source !== undefined &&
+    state.metadata !== undefined &&
+    !!state.metadata.artist &&
+    state.metadata.duration !== undefined &&
+    !(state.playbackState?.live ?? false) &&
+    SCROBBLE_PLAYBACK_STATE_SOURCES.includes(source) &&
+    // Video calls are not tracks.
+    !(state.capabilities?.mediaSessionActions.includes("hangup") ?? false);
+}
+
+function isSameTrack(
+  event: ScrobbleEvent,
+  metadata: BrowserMedia.MediaState_Metadata,
+): boolean {
+  return event.title === metadata.title &&
+    event.artist === metadata.artist &&
+    event.album === metadata.album;
+}
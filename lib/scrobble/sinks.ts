@@ -0,0 +1,69 @@
+import { scrobbleLog } from "../util/storage";
+import { ScrobbleEvent } from "./event";
+
+// How many events are kept in the local scrobble log.
+const SCROBBLE_LOG_SIZE = 1000;
+
+/**
+ * Receives scrobble events, e.g. to store them or to forward them
+ * to a scrobbling service.
+ */
+export interface IScrobbleSink {
+  /**
+   * Identifies the sink, so that queued events can be delivered
+   * to the same sink after the extension restarted.
+   */
+  readonly id: string
+  /**
+   * Delivers the event.
+   *
+   * @returns Whether the event was delivered.
+   * Undelivered scrobbles are queued and delivered again later.
+   */
+  send(event: ScrobbleEvent): Promise<boolean>
+}
+
+/**
+ * Appends events to a bounded log in the extension's local storage.
+ */
+export class LocalLogSink implements IScrobbleSink {
+
+  readonly id = "log"
+
+  async send(event: ScrobbleEvent): Promise<boolean> {
+    const log = await scrobbleLog.getValue();
+    log.push(event);
+    await scrobbleLog.setValue(log.slice(-SCROBBLE_LOG_SIZE));
+    return true;
+  }
+}
+
+/**
+ * Posts events as JSON to an HTTP endpoint.
+ * The endpoint has to allow cross-origin requests from the extension.
+ */
+export class HttpSink implements IScrobbleSink {
+
+  readonly id: string
+
+  constructor(private readonly url: string) {
+    this.id = `http:${url}`;
+  }
+
+  async send(event: ScrobbleEvent): Promise<boolean> {
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+      });
+      if (!response.ok) {
+        console.warn("The scrobble endpoint responded with", response.status);
+      }
+      return response.ok;
+    } catch (e) {
+      console.warn("Failed to send the scrobble event to", this.url, e);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, test, vi } from "vitest";
+import { ArtworkEmbedOptions, ArtworkEncoder, fitArtwork } from "./artwork";
+
+const OPTIONS: ArtworkEmbedOptions = {
+  maxBytes: 100 * 1000,
+  maxDimension: 512,
+};
+
+function image(size: number, type: string): Blob {
+  return new Blob([new Uint8Array(size)], { type });
+}
+
+// Encodes with a size proportional to the area of the image,
+// where PNG takes four bytes per pixel and JPEG one.
+function fakeEncoder(): ArtworkEncoder {
+  return vi.fn(async (width: number, height: number, type: string) =>
+    image(width * height * (type === "image/png" ? 4 : 1), type));
+}
+
+describe("fitArtwork", () => {
+
+  test("keeps small images as they are", async () => {
+    const blob = image(1000, "image/jpeg");
+    const encode = fakeEncoder();
+    const fitted = await fitArtwork(blob, 300, 300, OPTIONS, encode);
+    expect(fitted).toEqual({ blob, width: 300, height: 300 });
+    expect(encode).not.toHaveBeenCalled();
+  });
+
+  test("downscales images to the maximum dimension", async () => {
+    const encode = fakeEncoder();
+    const fitted = await fitArtwork(image(1000, "image/jpeg"), 1024, 256, OPTIONS, encode);
+    expect(fitted?.width).toBe(512);
+    expect(fitted?.height).toBe(128);
+    expect(encode).toHaveBeenCalledOnce();
+  });
+
+  test("downscales oversized images within the maximum dimension", async () => {
+    const encode = fakeEncoder();
+    const fitted = await fitArtwork(image(400 * 400 * 4, "image/png"), 400, 400, OPTIONS, encode);
+    expect(fitted).not.toBeNull();
+    expect(fitted!.blob.size).toBeLessThanOrEqual(OPTIONS.maxBytes);
+    expect(fitted!.blob.type).toBe("image/png");
+    expect(fitted!.width).toBeLessThan(400);
+    expect(fitted!.width).toBe(fitted!.height);
+  });
+
+  test("falls back to JPEG when PNG does not get small enough", async () => {
+    // PNG does not compress this image at all.
+    const encode = vi.fn(async (width: number, height: number, type: string) =>
+      image(type === "image/png" ? 400 * 400 * 4 : width * height, type));
+    const fitted = await fitArtwork(image(400 * 400 * 4, "image/png"), 400, 400, OPTIONS, encode);
+    expect(fitted?.blob.type).toBe("image/jpeg");
+    expect(fitted!.blob.size).toBeLessThanOrEqual(OPTIONS.maxBytes);
+  });
+
+  test("encodes again at a smaller scale when the estimate was too large", async () => {
+    // The encoded size does not shrink as much as the area.
+    const encode = vi.fn(async (width: number, height: number, type: string) =>
+      image(width * height * 2, type));
+    const fitted = await fitArtwork(image(400 * 400, "image/jpeg"), 400, 400, OPTIONS, encode);
+    expect(encode.mock.calls.length).toBeGreaterThan(1);
+    expect(fitted!.blob.size).toBeLessThanOrEqual(OPTIONS.maxBytes);
+  });
+
+  test("drops images that cannot be made small enough", async () => {
+    const encode = vi.fn(async (width: number, height: number, type: string) =>
+      image(OPTIONS.maxBytes + 1, type));
+    const fitted = await fitArtwork(image(400 * 400, "image/jpeg"), 400, 400, OPTIONS, encode);
+    expect(fitted).toBeNull();
+  });
+
+  test("drops oversized images when downscaling is disabled", async () => {
+    const encode = fakeEncoder();
+    const options = { ...OPTIONS, maxDimension: null };
+    expect(await fitArtwork(image(OPTIONS.maxBytes + 1, "image/png"), 400, 400, options, encode))
+      .toBeNull();
+    expect(encode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { BrowserMedia } from "../proto";
+
+export interface ArtworkEmbedOptions {
+  /**
+   * The maximum number of bytes of embedded image data.
+   * Larger images are downscaled and re-encoded, if enabled, or dropped.
+   */
+  maxBytes: number
+  /**
+   * The maximum width and height of embedded images.
+   * Larger images are downscaled to fit, preserving the aspect ratio.
+   * Downscaling is disabled when null.
+   */
+  maxDimension: number | null
+}
+
+/**
+ * Encodes the image at the given size and in the given format.
+ */
+export type ArtworkEncoder = (width: number, height: number, type: string) => Promise<Blob>;
+
+export interface FittedArtwork {
+  blob: Blob
+  width: number
+  height: number
+}
+
+// How often an image is re-encoded at most, until it fits the byte budget.
+const MAX_ENCODE_ATTEMPTS = 4;
+
+/**
+ * Whether the image refers to artwork that only exists within the page,
+ * i.e. a data: or blob: URL that cannot be used outside of it.
+ */
+export function isEmbeddableArtwork(image: BrowserMedia.MediaState_Image): boolean {
+  return image.url !== undefined &&
+    (image.url.startsWith("data:") || image.url.startsWith("blob:"));
+}
+
+/**
+ * Resolves the image data of a data: or same-origin blob: URL,
+ * so that it can be sent as raw bytes instead of the URL.
+ * The width and height are those of the actual image.
+ *
+ * @param image An image for which {@link isEmbeddableArtwork} is true.
+ * @returns The image with embedded data, or null if the image
+ * could not be loaded or is larger than allowed.
+ */
+export async function embedArtwork(
+  image: BrowserMedia.MediaState_Image,
+  options: ArtworkEmbedOptions,
+): Promise<BrowserMedia.MediaState_Image | null> {
+  const url = image.url!;
+  if (url.startsWith("blob:") && new URL(url).origin !== location.origin) {
+    // Blob URLs can only be resolved within the origin that created them.
+    return null;
+  }
+  let blob: Blob;
+  let bitmap: ImageBitmap;
+  try {
+    blob = await (await fetch(url)).blob();
+    bitmap = await createImageBitmap(blob);
+  } catch (e) {
+    console.warn("Failed to load artwork", url.substring(0, 64), e);
+    return null;
+  }
+  try {
+    const fitted = await fitArtwork(blob, bitmap.width, bitmap.height, options,
+      (width, height, type) => downscale(bitmap, width, height, type));
+    if (fitted === null) {
+      return null;
+    }
+    return {
+      data: new Uint8Array(await fitted.blob.arrayBuffer()),
+      mimeType: fitted.blob.type || image.mimeType,
+      width: fitted.width,
+      height: fitted.height,
+    };
+  } catch (e) {
+    console.warn("Failed to embed artwork", url.substring(0, 64), e);
+    return null;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Downscales an image to fit the maximum dimension and the byte budget.
+ * The scale for the byte budget is estimated from the size of the image,
+ * since the size of an encoded image roughly grows with its area,
+ * and the image is encoded again at a smaller scale, if it still does not fit.
+ * PNG images fall back to JPEG, which compresses artwork far better.
+ *
+ * @param blob The encoded image.
+ * @param width The width of the image.
+ * @param height The height of the image.
+ * @param encode Encodes the image at a different size or in a different format.
+ * @returns The image that fits, or null if it does not fit
+ * or downscaling is disabled.
+ */
+export async function fitArtwork(
+  blob: Blob,
+  width: number,
+  height: number,
+  options: ArtworkEmbedOptions,
+  encode: ArtworkEncoder,
+): Promise<FittedArtwork | null> {
+  if (options.maxDimension === null) {
+    return blob.size <= options.maxBytes ? { blob, width, height } : null;
+  }
+  let scale = Math.min(1, options.maxDimension / Math.max(width, height));
+  if (scale === 1 && blob.size <= options.maxBytes) {
+    return { blob, width, height };
+  }
+  if (blob.size > options.maxBytes) {
+    scale = Math.min(scale, Math.sqrt(options.maxBytes / blob.size));
+  }
+  let type = blob.type === "image/png" ? "image/png" : "image/jpeg";
+  for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+    const scaledWidth = Math.max(1, Math.round(width * scale));
+    const scaledHeight = Math.max(1, Math.round(height * scale));
+    const encoded = await encode(scaledWidth, scaledHeight, type);
+    if (encoded.size <= options.maxBytes) {
+      return { blob: encoded, width: scaledWidth, height: scaledHeight };
+    }
+    if (type === "image/png") {
+      type = "image/jpeg";
+    } else {
+      // Aim slightly below the budget, since the estimate is not exact.
+      scale *= 0.9 * Math.sqrt(options.maxBytes / encoded.size);
+    }
+  }
+  return null;
+}
+
+async function downscale(
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  type: string,
+): Promise<Blob> {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (context === null) {
+    throw new Error("Failed to create a canvas context");
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, width, height);
+  return await canvas.convertToBlob({ type, quality: 0.9 });
+}
+
+/**
+ * Returns a URL for the image that can be used to display it,
+ * which is a data: URL if the image data is embedded.
+ */
+export function artworkUrl(image: BrowserMedia.MediaState_Image): string | undefined {
+  if (image.url !== undefined) {
+    return image.url;
+  }
+  if (image.data === undefined) {
+    return undefined;
+  }
+  let binary = "";
+  for (const byte of image.data) {
+    binary += String.fromCharCode(byte);
+  }
+  return `data:${image.mimeType ?? "application/octet-stream"};base64,${btoa(binary)}`;
+}
@@ -1,20 +1,57 @@
 import { ProgressElementPrecision } from "./progress-element";
 import { ResourceLinkPatterns } from "./resource-links";
-import { PlaybackStateSource } from "./state";
+import { PlaybackStateSource } from "./playback-state-source";
 
 export namespace Constants {
 
   export const UPDATE_INTERVAL = 1000;
   export const PROGRESS_MILLIS_EPSILON = 25;
   export const PROGRESS_SECS_EPSILON = 250;
+  // A progress element is only used for the playback position once
+  // this many consecutive samples agree on it advancing in real time.
+  export const PROGRESS_ELEMENT_REQUIRED_SAMPLES = 3;
+
+  // Media elements that played least recently are not reported
+  // anymore, if a frame has more than this many.
+  export const MAX_MEDIA_ELEMENTS_PER_FRAME = 8;
+
+  // Artwork from data: and blob: URLs is embedded up to this size.
+  export const MAX_EMBEDDED_ARTWORK_BYTES = 512 * 1024;
 
   export const EPSILONS_FOR_PLAYBACK_STATE_SOURCE = {
     [PlaybackStateSource.MediaElement]: 100,
     [PlaybackStateSource.ProgressElementMilliseconds]: 250,
     [PlaybackStateSource.ProgressElementSeconds]: 1000,
     [PlaybackStateSource.Estimated]: 250,
+    // The position is extrapolated between the page's reports,
+    // which are often only made when playback starts or seeks.
+    [PlaybackStateSource.MediaSessionPositionState]: 500,
+    // There is no playback position without any media element, so it is
+    // not compared, unless the source changes and the other epsilon applies.
+    [PlaybackStateSource.MediaSessionMetadata]: Infinity,
   };
 
+  // The media element is considered to report an inaccurate duration,
+  // if it differs from the page's position state by more than this.
+  export const POSITION_STATE_DURATION_TOLERANCE = 1000;
+
+  // The duration in seconds that players like Shaka Player set
+  // for live streams, where an infinite duration is not supported.
+  export const LIVE_PLACEHOLDER_DURATION = 2 ** 32;
+  // A live stream with a finite duration can only be seeked within a window
+  // behind the live edge (DVR), which moves while the stream goes on.
+  // Its seekable range has to move by more than this to count as live,
+  // since the seekable range of regular media never moves.
+  export const LIVE_SEEKABLE_RANGE_ADVANCE = 1000;
+  // A moving seekable range counts as a live window, if it starts
+  // at least this far into the stream ...
+  export const LIVE_WINDOW_MIN_START = 10 * 1000;
+  // ... or if playback follows its end within this distance.
+  export const LIVE_EDGE_TOLERANCE = 30 * 1000;
+  // Changes of the seekable range of a live stream are only reported,
+  // once they exceed this, since it moves with the live edge.
+  export const SEEKABLE_RANGE_EPSILON = 5000;
+
   // The target precision is always milliseconds.
   // TODO Use generic precision enum type, not ProgressElementPrecision.
   export const PLAYBACK_POSITION_PRECISION = ProgressElementPrecision.Milliseconds;
@@ -107,6 +107,12 @@ export class TabProgressElementSource
       if (encountered.has(progressElement.element)) {
         continue;
       }
+      // Playback progress always starts at zero and has a length,
+      // anything else is e.g. a volume slider with a minimum.
+      if (progressElement.min !== 0 || progressElement.max === null ||
+        progressElement.max <= 0) {
+        continue;
+      }
       progressElement.targetPrecision = Constants.PLAYBACK_POSITION_PRECISION;
       filteredProgressElements.push(progressElement);
       encountered.add(progressElement.element);
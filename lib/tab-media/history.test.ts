@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { BrowserMedia } from "../proto";
+import { MediaHistory, RingBuffer } from "./history";
+
+function mediaState(title: string, playing: boolean): BrowserMedia.MediaState {
+  return BrowserMedia.MediaState.fromPartial({
+    source: { reverseDomain: "com.example", siteUrl: "https://example.com/" },
+    metadata: { title, artist: "Artist" },
+    playbackState: { playing },
+  });
+}
+
+describe("RingBuffer", () => {
+
+  test("keeps all items until it is full", () => {
+    const buffer = new RingBuffer<number>(3);
+    expect(buffer.toArray()).toEqual([]);
+    buffer.push(1);
+    buffer.push(2);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  test("discards the oldest items once it is full", () => {
+    const buffer = new RingBuffer<number>(3);
+    for (let item = 1; item <= 7; item++) {
+      buffer.push(item);
+    }
+    expect(buffer.toArray()).toEqual([5, 6, 7]);
+  });
+});
+
+describe("MediaHistory", () => {
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("adds an entry for every track", () => {
+    const history = new MediaHistory();
+    history.update(1, "a", mediaState("First", true));
+    history.update(1, "a", mediaState("First", false));
+    history.update(1, "a", mediaState("Second", true));
+    history.update(2, "b", mediaState("Third", true));
+    expect(history.entries().map(entry => entry.metadata?.title))
+      .toEqual(["First", "Second", "Third"]);
+    expect(history.entries(1).map(entry => entry.metadata?.title))
+      .toEqual(["First", "Second"]);
+  });
+
+  test("counts how long a track has been played", () => {
+    const history = new MediaHistory();
+    history.update(1, "a", mediaState("First", true));
+    vi.advanceTimersByTime(10 * 1000);
+    history.update(1, "a", mediaState("First", false));
+    vi.advanceTimersByTime(60 * 1000);
+    history.update(1, "a", mediaState("First", true));
+    vi.advanceTimersByTime(5 * 1000);
+    expect(history.entries()[0].playedDuration).toBe(15);
+  });
+
+  test("keeps the tracks of closed tabs in the global history", () => {
+    const history = new MediaHistory();
+    history.update(1, "a", mediaState("First", true));
+    history.removeTab(1);
+    expect(history.entries(1)).toEqual([]);
+    expect(history.entries()).toHaveLength(1);
+  });
+
+  test("is restored after a restart", async () => {
+    const history = new MediaHistory();
+    history.update(1, "a", mediaState("First", true));
+    history.update(2, "b", mediaState("Second", true));
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+
+    const restored = new MediaHistory();
+    await restored.restore();
+    expect(restored.entries()).toEqual(history.entries());
+    expect(restored.entries(1)).toEqual(history.entries(1));
+    // The current track continues without a new entry.
+    restored.update(1, "a", mediaState("First", false));
+    expect(restored.entries()).toHaveLength(2);
+    expect(restored.entries(1)[0].playedDuration).toBe(10);
+  });
+});
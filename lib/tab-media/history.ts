@@ -0,0 +1,215 @@
+import { BrowserMedia } from "../proto";
+import { persistedMediaHistory } from "../util/storage";
+
+// How many tracks are remembered across all tabs and for each tab.
+const GLOBAL_HISTORY_SIZE = 100;
+const TAB_HISTORY_SIZE = 20;
+// How long to wait for further changes before persisting the history.
+const PERSIST_DELAY = 100;
+
+interface MediaHistoryRecord {
+  entry: BrowserMedia.MediaHistoryEntry
+  // The time since which the track is playing, if it is playing.
+  playingSince: number | null
+}
+
+/**
+ * A list with a fixed capacity that discards the oldest items
+ * once it is full.
+ */
+export class RingBuffer<T> {
+
+  private items: T[] = []
+  private start: number = 0
+
+  constructor(private readonly capacity: number) { }
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /**
+   * Returns all items, ordered from the oldest to the newest item.
+   */
+  toArray(): T[] {
+    return [
+      ...this.items.slice(this.start),
+      ...this.items.slice(0, this.start),
+    ];
+  }
+}
+
+/**
+ * Keeps a bounded history of the tracks that were played recently,
+ * both across all tabs and for each tab individually.
+ * The history is persisted, so that the background script can be suspended.
+ */
+export class MediaHistory {
+
+  private global: RingBuffer<MediaHistoryRecord> = new RingBuffer(GLOBAL_HISTORY_SIZE)
+  private tabs: Map<number, RingBuffer<MediaHistoryRecord>> = new Map()
+  // The record of the current track of each media, keyed by media ID.
+  private current: Map<string, MediaHistoryRecord> = new Map()
+  private persistTimeout: NodeJS.Timeout | null = null
+
+  /**
+   * Restores the history from before the background script was suspended.
+   * Must be called before any updates are processed.
+   */
+  async restore() {
+    const persisted = await persistedMediaHistory.getValue();
+    const records = persisted.records.map(record => ({
+      entry: BrowserMedia.MediaHistoryEntry.fromJSON(record.entryJson),
+      playingSince: record.playingSince,
+    }));
+    for (const index of persisted.global) {
+      this.global.push(records[index]);
+    }
+    for (const tab of persisted.tabs) {
+      const buffer = new RingBuffer<MediaHistoryRecord>(TAB_HISTORY_SIZE);
+      for (const index of tab.records) {
+        buffer.push(records[index]);
+      }
+      this.tabs.set(tab.tabId, buffer);
+    }
+    for (const [mediaId, index] of Object.entries(persisted.current)) {
+      this.current.set(mediaId, records[index]);
+    }
+  }
+
+  /**
+   * Records a new state of the media with the given ID.
+   * A new entry is added whenever the track changes.
+   *
+   * @param tabId The tab in which the media is playing.
+   * @param state The current state of the media or null,
+   * if the media is not active anymore.
+   */
+  update(tabId: number, mediaId: string, state: BrowserMedia.MediaState | null) {
+    const now = Date.now();
+    const previous = this.current.get(mediaId);
+    if (previous !== undefined) {
+      this.#accumulate(previous, now);
+    }
+    if (state === null || state.metadata === undefined) {
+      if (this.current.delete(mediaId)) {
+        this.#persist();
+      }
+      return;
+    }
+    const playing = state.playbackState?.playing ?? false;
+    if (previous !== undefined && isSameTrack(previous.entry, state)) {
+      // The duration and resource links might only be known later.
+      previous.entry.metadata = state.metadata;
+      previous.entry.resourceLinks = state.resourceLinks;
+      previous.playingSince = playing ? now : null;
+      this.#persist();
+      return;
+    }
+    const record: MediaHistoryRecord = {
+      entry: {
+        mediaId,
+        source: state.source,
+        metadata: state.metadata,
+        resourceLinks: state.resourceLinks,
+        startTime: new Date(now),
+        playedDuration: 0,
+      },
+      playingSince: playing ? now : null,
+    };
+    this.current.set(mediaId, record);
+    this.global.push(record);
+    if (!this.tabs.has(tabId)) {
+      this.tabs.set(tabId, new RingBuffer(TAB_HISTORY_SIZE));
+    }
+    this.tabs.get(tabId)!.push(record);
+    this.#persist();
+  }
+
+  /**
+   * Forgets the history of a tab that has been closed.
+   * Its tracks remain in the global history.
+   */
+  removeTab(tabId: number) {
+    if (this.tabs.delete(tabId)) {
+      this.#persist();
+    }
+  }
+
+  /**
+   * Returns the recently played tracks,
+   * ordered from the least to the most recently started track.
+   *
+   * @param tabId The tab to return the tracks for,
+   * or undefined to return the tracks of all tabs.
+   */
+  entries(tabId?: number): BrowserMedia.MediaHistoryEntry[] {
+    const records = tabId === undefined
+      ? this.global.toArray()
+      : this.tabs.get(tabId)?.toArray() ?? [];
+    const now = Date.now();
+    return records.map(record => ({
+      ...record.entry,
+      playedDuration: record.entry.playedDuration + (record.playingSince !== null
+        ? (now - record.playingSince) / 1000 : 0),
+    }));
+  }
+
+  #accumulate(record: MediaHistoryRecord, now: number) {
+    if (record.playingSince !== null) {
+      record.entry.playedDuration += (now - record.playingSince) / 1000;
+      record.playingSince = null;
+    }
+  }
+
+  /**
+   * Mirrors the history into session storage.
+   * Records that are part of multiple histories are stored once.
+   * Multiple changes in short succession are persisted at once.
+   */
+  #persist() {
+    if (this.persistTimeout !== null) {
+      return;
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      const records: MediaHistoryRecord[] = [];
+      const indices: Map<MediaHistoryRecord, number> = new Map();
+      const indexOf = (record: MediaHistoryRecord) => {
+        if (!indices.has(record)) {
+          indices.set(record, records.push(record) - 1);
+        }
+        return indices.get(record)!;
+      };
+      persistedMediaHistory.setValue({
+        global: this.global.toArray().map(indexOf),
+        tabs: [...this.tabs].map(([tabId, buffer]) => ({
+          tabId,
+          records: buffer.toArray().map(indexOf),
+        })),
+        current: Object.fromEntries([...this.current].map(([mediaId, record]) =>
+          [mediaId, indexOf(record)])),
+        records: records.map(record => ({
+          entryJson: BrowserMedia.MediaHistoryEntry.toJSON(record.entry) as object,
+          playingSince: record.playingSince,
+        })),
+      }).catch(e => {
+        console.error("Failed to persist the media history", e);
+      });
+    }, PERSIST_DELAY);
+  }
+}
+
+function isSameTrack(
+  entry: BrowserMedia.MediaHistoryEntry,
+  state: BrowserMedia.MediaState,
+): boolean {
+  return entry.metadata?.title === state.metadata?.title &&
+    entry.metadata?.artist === state.metadata?.artist &&
+    entry.metadata?.album === state.metadata?.album;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "vitest";
+import { isLiveMediaElement, seekableRange } from "./live";
+
+interface FakeMediaElement {
+  duration: number
+  currentTime: number
+  readyState: number
+  currentSrc: string
+  // Seekable ranges in seconds.
+  ranges: [number, number][]
+}
+
+function fakeElement(properties: Partial<FakeMediaElement>): FakeMediaElement {
+  return {
+    duration: 600,
+    currentTime: 0,
+    readyState: 4,
+    currentSrc: "https://example.com/media.mp4",
+    ranges: [[0, 600]],
+    ...properties,
+  };
+}
+
+function asElement(fake: FakeMediaElement): HTMLMediaElement {
+  return {
+    get duration() { return fake.duration; },
+    get currentTime() { return fake.currentTime; },
+    get readyState() { return fake.readyState; },
+    get currentSrc() { return fake.currentSrc; },
+    get seekable() {
+      return {
+        length: fake.ranges.length,
+        start: (index: number) => fake.ranges[index][0],
+        end: (index: number) => fake.ranges[index][1],
+      };
+    },
+  } as unknown as HTMLMediaElement;
+}
+
+describe("seekableRange", () => {
+
+  test("merges all ranges into one in milliseconds", () => {
+    const element = asElement(fakeElement({ ranges: [[1, 2.5], [4, 8.25]] }));
+    expect(seekableRange(element)).toEqual({ start: 1000, end: 8250 });
+  });
+
+  test("is null when the media cannot be seeked", () => {
+    expect(seekableRange(asElement(fakeElement({ ranges: [] })))).toBeNull();
+    expect(seekableRange(asElement(fakeElement({ ranges: [[0, Infinity]] })))).toBeNull();
+  });
+});
+
+describe("isLiveMediaElement", () => {
+
+  test("detects an infinite duration", () => {
+    expect(isLiveMediaElement(asElement(fakeElement({ duration: Infinity })))).toBe(true);
+  });
+
+  test("detects a placeholder duration", () => {
+    expect(isLiveMediaElement(asElement(fakeElement({ duration: 2 ** 32 })))).toBe(true);
+  });
+
+  test("detects an unknown duration once the metadata has loaded", () => {
+    expect(isLiveMediaElement(asElement(fakeElement({ duration: NaN, readyState: 0 }))))
+      .toBe(false);
+    expect(isLiveMediaElement(asElement(fakeElement({ duration: NaN, readyState: 1 }))))
+      .toBe(true);
+  });
+
+  test("does not detect regular media", () => {
+    const fake = fakeElement({});
+    const element = asElement(fake);
+    for (let time = 0; time <= 600; time += 60) {
+      fake.currentTime = time;
+      expect(isLiveMediaElement(element)).toBe(false);
+    }
+  });
+
+  test("does not detect regular media that is only seekable in part", () => {
+    const fake = fakeElement({ ranges: [[30, 540]], currentTime: 500 });
+    const element = asElement(fake);
+    expect(isLiveMediaElement(element)).toBe(false);
+    fake.currentTime = 530;
+    expect(isLiveMediaElement(element)).toBe(false);
+  });
+
+  test("detects a DVR window that moves with the stream", () => {
+    const fake = fakeElement({ duration: 3600, ranges: [[1200, 3000]], currentTime: 2000 });
+    const element = asElement(fake);
+    expect(isLiveMediaElement(element)).toBe(false);
+    fake.ranges = [[1205, 3005]];
+    expect(isLiveMediaElement(element)).toBe(true);
+  });
+
+  test("detects playback that follows the growing end of a stream", () => {
+    const fake = fakeElement({ duration: 120, ranges: [[0, 120]], currentTime: 115 });
+    const element = asElement(fake);
+    expect(isLiveMediaElement(element)).toBe(false);
+    fake.duration = 125;
+    fake.ranges = [[0, 125]];
+    fake.currentTime = 120;
+    expect(isLiveMediaElement(element)).toBe(true);
+  });
+
+  test("does not detect a growing stream that is played from the start", () => {
+    const fake = fakeElement({ duration: 600, ranges: [[0, 600]], currentTime: 10 });
+    const element = asElement(fake);
+    isLiveMediaElement(element);
+    fake.duration = 605;
+    fake.ranges = [[0, 605]];
+    expect(isLiveMediaElement(element)).toBe(false);
+  });
+
+  test("forgets the seekable range when the source changes", () => {
+    const fake = fakeElement({ duration: 3600, ranges: [[1200, 3000]], currentTime: 2000 });
+    const element = asElement(fake);
+    isLiveMediaElement(element);
+    fake.currentSrc = "https://example.com/other.mp4";
+    fake.ranges = [[1205, 3005]];
+    expect(isLiveMediaElement(element)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { Constants } from "./constants";
+import { TimeRange } from "./state";
+
+/**
+ * Returns the range within which the media element can be seeked,
+ * in milliseconds, or null if it cannot be seeked at all.
+ * Multiple ranges are merged into one, from the first to the last.
+ */
+export function seekableRange(element: HTMLMediaElement): TimeRange | null {
+  const seekable = element.seekable;
+  if (seekable.length === 0) {
+    return null;
+  }
+  const start = seekable.start(0);
+  const end = seekable.end(seekable.length - 1);
+  if (!isFinite(start) || !isFinite(end) || end <= start) {
+    return null;
+  }
+  return {
+    start: Math.floor(start * 1000),
+    end: Math.floor(end * 1000),
+  };
+}
+
+// The value of HTMLMediaElement.HAVE_METADATA.
+const HAVE_METADATA = 1;
+
+interface SeekableRangeObservation {
+  src: string
+  // The seekable range when the source of the element was first seen.
+  range: TimeRange
+}
+
+const seekableRangeObservations: WeakMap<HTMLMediaElement, SeekableRangeObservation> =
+  new WeakMap();
+
+/**
+ * Returns how far the seekable range of the media element moved,
+ * since it was first seen with its current source, in milliseconds.
+ */
+function seekableRangeAdvance(
+  element: HTMLMediaElement,
+  range: TimeRange,
+): { start: number, end: number } {
+  let observation = seekableRangeObservations.get(element);
+  if (observation === undefined || observation.src !== element.currentSrc) {
+    observation = { src: element.currentSrc, range };
+    seekableRangeObservations.set(element, observation);
+  }
+  return {
+    start: range.start - observation.range.start,
+    end: range.end - observation.range.end,
+  };
+}
+
+/**
+ * Whether the media element plays a live stream.
+ *
+ * Live streams have an infinite or an unknown duration, or, when they are
+ * played with Media Source Extensions, a placeholder duration.
+ * Otherwise they can only be seeked within a window behind the live edge
+ * (DVR), which moves while the stream goes on. The window either starts
+ * well into the stream or playback follows its end, which grows with the
+ * stream. The seekable range of regular media never moves,
+ * so it is only detected once the window moved since it was first seen.
+ */
+export function isLiveMediaElement(element: HTMLMediaElement): boolean {
+  if (isNaN(element.duration)) {
+    // The duration is also unknown before the metadata has loaded.
+    return element.readyState >= HAVE_METADATA;
+  }
+  if (element.duration === Infinity ||
+    element.duration >= Constants.LIVE_PLACEHOLDER_DURATION) {
+    return true;
+  }
+  const range = seekableRange(element);
+  if (range === null) {
+    return false;
+  }
+  const advance = seekableRangeAdvance(element, range);
+  if (range.start > Constants.LIVE_WINDOW_MIN_START &&
+    advance.start > Constants.LIVE_SEEKABLE_RANGE_ADVANCE) {
+    return true;
+  }
+  const position = element.currentTime * 1000;
+  return advance.end > Constants.LIVE_SEEKABLE_RANGE_ADVANCE &&
+    Math.abs(range.end - position) <= Constants.LIVE_EDGE_TOLERANCE;
+}
@@ -2,9 +2,11 @@ import { BrowserMedia } from "../proto";
 import { getFaviconUrl, getPageUrl, getReverseDomain } from "../util/document";
 import { Constants } from "./constants";
 import { ElementSourceObserver, ExcludeElementFilter, IElementFilter, IElementSource, MediaElementFilter, MediaElementFilterOptions, MediaElementSource, MultiElementFilter, TabProgressElementSource } from "./element-source";
+import { isLiveMediaElement, seekableRange } from "./live";
+import { PlaybackStateSource } from "./playback-state-source";
 import { ProgressElement, ProgressElementPrecision } from "./progress-element";
 import { findBestMatchingResourceLinks, ResourceLinkPatterns, ResourceType } from "./resource-links";
-import { PlaybackStateSource, TabMediaPlaybackState, TabMediaState, TabMediaStateChange } from "./state";
+import { TabMediaPlaybackState, TabMediaState, TabMediaStateChange } from "./state";
 
 export type ElementOrElementAggregate<E extends Element = Element> =
   E | { element: E; };
@@ -231,11 +233,23 @@ interface ProgressElementState {
   progressElement: ProgressElement
   lastValue: number | null
   lastValueTimestamp: number | null
+  // The precision of the most recent sample that advanced in real time.
+  samplePrecision: ProgressElementPrecision | null
+  // The number of agreeing samples minus the number of contradicting samples,
+  // between 0 and the number of required samples.
+  sampleScore: number
+}
+
+interface ProgressElementSample {
+  precision: ProgressElementPrecision
+  // The time between the two values in milliseconds.
+  updateInterval: number
 }
 
 export type ElementMutationCallback<E> =
   (element: E, mutation: MutationRecord) => void;
 export type ElementMutationStoppedCallback<E> = (element: E) => void;
+export type ElementLostCallback<E> = (element: E) => void;
 
 export class PlaybackPositionProgressElementObserver
   implements IObserver<ElementMutationCallback<ProgressElement>> {
@@ -247,6 +261,7 @@ export class PlaybackPositionProgressElementObserver
   private elementGroupObserver: ElementGroupObserver<ProgressElement, ElementMutationsCallback<ProgressElement>>
   private mutationCallbacks: ElementMutationCallback<ProgressElement>[] = []
   private mutationStoppedCallbacks: ElementMutationStoppedCallback<ProgressElement>[] = []
+  private elementLostCallbacks: ElementLostCallback<ProgressElement>[] = []
   private mutationStoppedTimeout: number | null = null
 
   constructor(
@@ -260,9 +275,22 @@ export class PlaybackPositionProgressElementObserver
   }
 
   start(): boolean { return this.elementGroupObserver.start(); }
-  stop(): boolean { return this.elementGroupObserver.stop(); }
   restart(): boolean { return this.elementGroupObserver.restart(); }
 
+  /**
+   * Stops observing and forgets all samples, so that the progress element
+   * has to be found again once observing starts again.
+   */
+  stop(): boolean {
+    this.progressElementState = new WeakMap();
+    this.currentPlaybackPositionProgressElement = null;
+    if (this.mutationStoppedTimeout !== null) {
+      clearTimeout(this.mutationStoppedTimeout);
+      this.mutationStoppedTimeout = null;
+    }
+    return this.elementGroupObserver.stop();
+  }
+
   addEventListener(callback: ElementMutationCallback<ProgressElement>): void {
     this.addMutationListener(callback)
   }
@@ -275,6 +303,14 @@ export class PlaybackPositionProgressElementObserver
     this.mutationStoppedCallbacks.push(callback)
   }
 
+  /**
+   * Called when the progress element that was found is no longer used,
+   * because it was removed from the page or stopped tracking the playback.
+   */
+  addElementLostListener(callback: ElementLostCallback<ProgressElement>): void {
+    this.elementLostCallbacks.push(callback)
+  }
+
   #mutationStoppedHandler(progressElement: ProgressElement) {
     for (const callback of this.mutationStoppedCallbacks) {
       callback(progressElement)
@@ -298,13 +334,6 @@ export class PlaybackPositionProgressElementObserver
   }
 
   #onMutated(element: ProgressElement, mutations: MutationRecord[]) {
-
-    // FIXME what if the progress element is removed or replaced?
-    // in that case we would rely on an invalid element the whole time.
-
-    // TODO We can probably filter out all progress elements where the minimum
-    // is not equal to 0, no?
-
     const nowTimestamp = Date.now();
     for (const mutation of mutations) {
       if (!mutation.attributeName) {
@@ -324,93 +353,106 @@ export class PlaybackPositionProgressElementObserver
         console.assert(false, "mutated element is not the progress element");
         continue;
       }
+      // Every change of the value is a sample that either confirms
+      // or contradicts that the element tracks the playback position,
+      // even once the element was found, since it might be reused
+      // for something else or the precision might have been detected wrongly.
+      if (mutation.attributeName === state.progressElement.valueAttribute) {
+        const valueString = mutation.target.getAttribute(mutation.attributeName);
+        if (valueString !== null) {
+          this.#updateConfidence(state, this.#sample(state, parseFloat(valueString), nowTimestamp));
+        }
+      }
 
-      // When the playback position progress element has already been found
+      // When the playback position progress element has been found
       // we simply trigger a media update when an attribute changed.
-      // We break the loop, since we don't need to send updates more than once
-      // for the current set of mutations.
-      if (this.currentPlaybackPositionProgressElement) {
-
+      if (this.currentPlaybackPositionProgressElement === state.progressElement) {
         // Set the mutation stop timeout.
         this.#updateMutationStoppedTimeout(this.currentPlaybackPositionProgressElement);
-
-        if (this.currentPlaybackPositionProgressElement.element === mutation.target) {
-          if (mutation.attributeName == state.progressElement.valueAttribute) {
-            // this.lastPlaybackPositionValueUpdate = nowTimestamp;
-            // FIXME Shouldn't we only call the callback if the attributeName changed?
-          }
-          for (const callback of this.mutationCallbacks) {
-            callback(this.currentPlaybackPositionProgressElement, mutation);
-          }
+        for (const callback of this.mutationCallbacks) {
+          callback(this.currentPlaybackPositionProgressElement, mutation);
         }
-        continue;
       }
+    }
+  }
 
-      if (mutation.attributeName !== state.progressElement.valueAttribute) {
-        continue;
-      }
-      const valueString = mutation.target.getAttribute(mutation.attributeName);
-      if (valueString === null) {
-        continue;
-      }
-      const realNewValue = parseFloat(valueString);
-      if (state.lastValue === null || state.lastValueTimestamp === null) {
-        state.lastValue = realNewValue;
-        state.lastValueTimestamp = nowTimestamp;
-        continue;
-      }
-      let newValue = realNewValue;
-      let lastValue = state.lastValue;
-      if (newValue <= lastValue) {
-        // The new value must be larger than the old value.
-        state.lastValue = realNewValue;
-        state.lastValueTimestamp = nowTimestamp;
-        continue;
-      }
+  /**
+   * Compares the new value of a progress element with its previous value.
+   *
+   * @returns The precision of the value, if it advanced by as much time
+   * as has passed in either milliseconds or seconds, and null otherwise.
+   */
+  #sample(
+    state: ProgressElementState,
+    value: number,
+    nowTimestamp: number,
+  ): ProgressElementSample | null {
+    const lastValue = state.lastValue;
+    const lastValueTimestamp = state.lastValueTimestamp;
+    state.lastValue = value;
+    state.lastValueTimestamp = nowTimestamp;
+    if (lastValue === null || lastValueTimestamp === null || value <= lastValue) {
+      // The value must be larger than the old value.
+      return null;
+    }
+    const timeDeltaMillis = nowTimestamp - lastValueTimestamp;
+    const valueDelta = value - lastValue;
+    if (Math.abs(timeDeltaMillis - valueDelta) <= Constants.PROGRESS_MILLIS_EPSILON) {
+      return {
+        precision: ProgressElementPrecision.Milliseconds,
+        updateInterval: timeDeltaMillis,
+      };
+    }
+    if (Math.abs(timeDeltaMillis - valueDelta * ProgressElementPrecision.Milliseconds)
+      <= Constants.PROGRESS_SECS_EPSILON) {
+      return {
+        precision: ProgressElementPrecision.Seconds,
+        updateInterval: timeDeltaMillis,
+      };
+    }
+    return null;
+  }
 
-      const timeDeltaMillis = nowTimestamp - state.lastValueTimestamp;
-      const timeDeltaSecs = timeDeltaMillis / 1000.0;
-      let positionDelta = newValue - lastValue;
-      let isMillis = false;
-      let epsilon = Constants.PROGRESS_MILLIS_EPSILON;
-      if (positionDelta >= timeDeltaMillis / 2) {
-        isMillis = true
-      }
-      if (!isMillis) {
-        state.progressElement.valuePrecision = ProgressElementPrecision.Seconds;
-        newValue *= state.progressElement.multiplier;
-        lastValue *= state.progressElement.multiplier;
-        positionDelta = newValue - lastValue;
-        epsilon = Constants.PROGRESS_SECS_EPSILON;
-      } else {
-        // FIXME This is triggered sometimes on Spotify.
-        console.assert(state.progressElement.valuePrecision
-          === ProgressElementPrecision.Milliseconds)
-      }
-      let updateIntervalMillis = positionDelta;
-      switch (state.progressElement.valuePrecision) {
-        case ProgressElementPrecision.Seconds:
-          updateIntervalMillis *= ProgressElementPrecision.Milliseconds;
-          break;
-        case ProgressElementPrecision.Milliseconds:
-          break;
-        default:
-          state.progressElement.valuePrecision satisfies never
-          break;
-      }
-      // FIXME Can't the update interval be derived instead of setting it?
-      state.progressElement.updateInterval = updateIntervalMillis
-
-      const difference = Math.abs(timeDeltaMillis - positionDelta);
-      if (difference <= epsilon) {
-        this.currentPlaybackPositionProgressElement = state.progressElement;
-        state.lastValue = null;
-        state.lastValueTimestamp = null;
-        continue;
+  /**
+   * Raises the confidence of a progress element for each sample that agrees
+   * with the previous samples and lowers it otherwise. An element is used
+   * once it is fully confident and no longer used once it has no confidence.
+   */
+  #updateConfidence(state: ProgressElementState, sample: ProgressElementSample | null) {
+    const progressElement = state.progressElement;
+    const requiredSamples = Constants.PROGRESS_ELEMENT_REQUIRED_SAMPLES;
+    const agrees = sample !== null && sample.precision === state.samplePrecision;
+    if (sample !== null) {
+      state.samplePrecision = sample.precision;
+    }
+    state.sampleScore = Math.min(requiredSamples, Math.max(0,
+      state.sampleScore + (agrees ? 1 : -1)));
+    if (progressElement === this.currentPlaybackPositionProgressElement) {
+      if (state.sampleScore === 0) {
+        this.#loseCurrentElement();
       }
+      return;
+    }
+    if (agrees && state.sampleScore === requiredSamples &&
+      this.currentPlaybackPositionProgressElement === null) {
+      progressElement.valuePrecision = sample.precision;
+      progressElement.updateInterval = sample.updateInterval;
+      this.currentPlaybackPositionProgressElement = progressElement;
+    }
+  }
 
-      state.lastValue = realNewValue;
-      state.lastValueTimestamp = nowTimestamp;
+  #loseCurrentElement() {
+    const progressElement = this.currentPlaybackPositionProgressElement;
+    if (progressElement === null) {
+      return;
+    }
+    this.currentPlaybackPositionProgressElement = null;
+    if (this.mutationStoppedTimeout !== null) {
+      clearTimeout(this.mutationStoppedTimeout);
+      this.mutationStoppedTimeout = null;
+    }
+    for (const callback of this.elementLostCallbacks) {
+      callback(progressElement);
     }
   }
 
@@ -427,10 +469,19 @@ export class PlaybackPositionProgressElementObserver
             self.progressElementState.set(progressElement.element, {
               progressElement: progressElement,
               lastValue: progressElement.value,
-              lastValueTimestamp: nowTimestamp
+              lastValueTimestamp: nowTimestamp,
+              samplePrecision: null,
+              sampleScore: 0,
             });
           }
         }
+        // The element might have been removed or replaced by the page,
+        // in which case a new element has to be found.
+        const current = self.currentPlaybackPositionProgressElement;
+        if (current !== null && !progressElements.some(
+          progressElement => progressElement.element === current.element)) {
+          self.#loseCurrentElement();
+        }
         return progressElements;
       }
     };
@@ -479,29 +530,49 @@ enum MediaObserverState {
 export type MediaElementObserver = ElementGroupObserver<HTMLMediaElement, ElementEventCallback<HTMLMediaElement>>;
 
 export interface MediaStateEvent {
+  // Identifies the media within the frame, as long as it exists.
+  key: string
+  // Whether this is the media that the page's media session belongs to.
+  primary: boolean
   state: BrowserMedia.MediaState
   clientState: {
     metadataButtons: Set<string>
+    // Where the playback state was read from.
+    playbackStateSource: PlaybackStateSource
   }
 }
 
-export type MediaStateEventCallback = (event: MediaStateEvent | null) => void
+/**
+ * Called with all media of the frame, with the primary media first,
+ * or with an empty list if there is no media anymore.
+ */
+export type MediaStateEventCallback = (events: MediaStateEvent[]) => void
 
-export class MediaObserver implements IObserver<MediaStateEventCallback> {
+// The key of the primary media, when it is not played by a media element.
+const PAGE_MEDIA_KEY = "page";
 
-  // TODO Observe "navigator.mediaSession.metadata" as well, since it can
-  // contain information before any media is playing on the site.
+export class MediaObserver implements IObserver<MediaStateEventCallback> {
 
   private observerState: MediaObserverState = MediaObserverState.Idle
 
   private mediaElementObserver: MediaElementObserver;
-  // private progressElementObserver: PlaybackPositionProgressElementObserver;
+  private progressElementObserver: PlaybackPositionProgressElementObserver;
   private currentMediaElement: HTMLMediaElement | null = null;
+  // All media elements that have been playing and still qualify,
+  // ordered by when they started playing, the most recent one last.
+  private trackedMediaElements: HTMLMediaElement[] = [];
+  private mediaElementKeys: WeakMap<HTMLMediaElement, string> = new WeakMap();
+  private mediaElementCounter: number = 0;
   private currentProgressElement: ProgressElement | null = null;
+  // Whether progress elements are observed, which is only
+  // the case while there is no media element to observe.
+  private progressElementObserving: boolean = false;
   private currentProgressElementMutating: boolean | undefined = undefined;
   private useEstimatedTrackStartTime: boolean = true;
   private estimatedTrackStartTime: number | null = null
-  private previousMediaState: TabMediaState | null = null
+  private previousMediaStates: Map<string, TabMediaState> = new Map()
+  // The events that listeners were notified about most recently.
+  private previousEvents: MediaStateEvent[] = []
   // TODO set the interval to check every second for undetected changes
   private updateInterval: NodeJS.Timeout | null = null
 
@@ -510,6 +581,18 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
   private temporaryPinEndTimestamp: number | null = null
   private temporaryPinTimeout: NodeJS.Timeout | null = null
 
+  // The position state that the page reported most recently,
+  // along with the time at which it was reported
+  // and the source of the media element that was playing at that time.
+  private positionState: MediaPositionState | null = null
+  private positionStateTimestamp: number | null = null
+  private positionStateSrc: string | null = null
+
+  // Whether the page produces audio with the Web Audio API
+  // and whether that audio is currently playing.
+  private webAudioActive: boolean = false
+  private webAudioPlaying: boolean = false
+
   static createMediaElementFilter(
     options: MediaElementFilterOptions
   ): IElementFilter<HTMLMediaElement> {
@@ -527,7 +610,7 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
   constructor() {
     this.mediaElementObserver = new ElementGroupObserver(
       new MediaElementSource(MediaObserver.createMediaElementFilter({
-        // FIXME Does this exclude e.g. Twitch streams?
+        // Elements are observed before their metadata has loaded.
         requireDuration: false,
         // We only start observing elements that are playing.
         allowPaused: false,
@@ -536,14 +619,18 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
         ['play', 'pause', 'timeupdate', 'durationchange']
       )
     );
-    // TODO The progress element observer is not really needed at the moment.
-    // this.progressElementObserver = new PlaybackPositionProgressElementObserver(
-    //   new TabProgressElementSource()
-    // );
+    // The progress element is only used when no media element qualifies,
+    // e.g. for players that stream through Web Audio or Media Source Extensions
+    // without an observable media element.
+    this.progressElementObserver = new PlaybackPositionProgressElementObserver(
+      new TabProgressElementSource()
+    );
     this.mediaElementObserver.addEventListener(this.#onMediaElementUpdated.bind(this))
-    // this.progressElementObserver.addMutationListener(this.#onProgressElementMutated.bind(this))
-    // this.progressElementObserver.addMutationStoppedListener(
-    //   this.#onProgressElementStoppedMutating.bind(this))
+    this.progressElementObserver.addMutationListener(this.#onProgressElementMutated.bind(this))
+    this.progressElementObserver.addMutationStoppedListener(
+      this.#onProgressElementStoppedMutating.bind(this))
+    this.progressElementObserver.addElementLostListener(
+      this.#onProgressElementLost.bind(this))
     navigation.addEventListener('navigate', this.#onPageNavigation.bind(this));
   }
 
@@ -552,7 +639,7 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
       return true;
     this.observerState = MediaObserverState.Observing;
     this.mediaElementObserver.restart();
-    // this.progressElementObserver.restart();
+    this.#updateProgressElementObservation();
     return true;
   }
 
@@ -561,13 +648,13 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
       return false;
     this.observerState = MediaObserverState.Idle;
     this.mediaElementObserver.stop();
-    // this.progressElementObserver.stop();
     this.currentMediaElement = null;
-    this.currentProgressElement = null;
-    this.currentProgressElementMutating = undefined;
+    this.trackedMediaElements = [];
+    this.#updateProgressElementObservation();
     this.useEstimatedTrackStartTime = true;
     this.estimatedTrackStartTime = null;
-    this.previousMediaState = null;
+    this.previousMediaStates = new Map();
+    this.previousEvents = [];
     return true;
   }
 
@@ -587,10 +674,81 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     return this.currentMediaElement
   }
 
+  /**
+   * The key of the primary media, which the page's media session belongs to.
+   */
+  get primaryKey(): string {
+    return this.currentMediaElement !== null
+      ? this.#mediaElementKey(this.currentMediaElement)
+      : PAGE_MEDIA_KEY;
+  }
+
+  /**
+   * Returns the media element of the media with the given key.
+   *
+   * @param key The key of the media or undefined for the primary media.
+   */
+  mediaElementFor(key: string | undefined): HTMLMediaElement | null {
+    if (key === undefined) {
+      return this.currentMediaElement;
+    }
+    return this.trackedMediaElements.find(element =>
+      this.#mediaElementKey(element) === key) ?? null;
+  }
+
+  /**
+   * Whether the element is the media element of any media.
+   */
+  isMediaElement(element: EventTarget): boolean {
+    return element instanceof HTMLMediaElement &&
+      this.trackedMediaElements.includes(element);
+  }
+
   /**
    * Hints that there is likely a media update that should be handled.
+   *
+   * @param force Whether to notify listeners about the current state,
+   * even if nothing has changed.
    */
-  updateHint() {
+  updateHint(force: boolean = false) {
+    this.#handleUpdate(force);
+  }
+
+  /**
+   * Updates the position state that the page reported
+   * with navigator.mediaSession.setPositionState(),
+   * which is only accessible from the page's own context.
+   *
+   * @param state The position state or null, if the page cleared it.
+   * @param timestamp The time at which the page reported it.
+   */
+  updatePositionState(state: MediaPositionState | null, timestamp: number) {
+    this.positionState = state;
+    this.positionStateTimestamp = timestamp;
+    this.positionStateSrc = this.currentMediaElement?.currentSrc ?? null;
+    this.#handleUpdate();
+  }
+
+  /**
+   * Forgets the position state that the page reported,
+   * since it belongs to the previous track once the metadata changed.
+   */
+  resetPositionState() {
+    this.positionState = null;
+    this.positionStateTimestamp = null;
+    this.positionStateSrc = null;
+  }
+
+  /**
+   * Updates whether the page produces audio with the Web Audio API,
+   * which is only observable from the page's own context.
+   *
+   * @param active Whether any audio sources are producing audio.
+   * @param playing Whether any of those sources are playing.
+   */
+  updateWebAudioState(active: boolean, playing: boolean) {
+    this.webAudioActive = active;
+    this.webAudioPlaying = playing;
     this.#handleUpdate();
   }
 
@@ -609,23 +767,89 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     this.temporaryPinTimeout = null;
   }
 
-  #onMediaElementUpdated(element: HTMLMediaElement) {
+  #onMediaElementUpdated(element: HTMLMediaElement, event: Event) {
     const filter = MediaObserver.createMediaElementFilter({
-      // FIXME Does this exclude e.g. Twitch streams?
+      // Live streams have an infinite or a placeholder duration,
+      // so this only excludes elements whose metadata has not loaded yet.
       requireDuration: true,
       // Keep using the media element, even when it's paused.
       allowPaused: true,
     });
+    const index = this.trackedMediaElements.indexOf(element);
     if (filter.test(element)) {
-      this.currentMediaElement = element;
-      this.useEstimatedTrackStartTime = false;
-    } else {
-      this.currentMediaElement = null;
-      this.useEstimatedTrackStartTime = true;
+      // Elements are only observed while playing, so an unknown element
+      // has started playing, but its "play" event might have been missed.
+      const startedPlaying = index < 0 || event.type === 'play';
+      if (startedPlaying) {
+        if (index >= 0) {
+          this.trackedMediaElements.splice(index, 1);
+        }
+        this.trackedMediaElements.push(element);
+      }
+      // The element that started playing most recently is the primary media,
+      // since the page's media session most likely describes it.
+      // Another element that is still playing is not replaced though.
+      if (this.currentMediaElement === null || event.type === 'play' ||
+        (startedPlaying && this.currentMediaElement.paused)) {
+        this.currentMediaElement = element;
+      }
+    } else if (index >= 0) {
+      this.trackedMediaElements.splice(index, 1);
     }
+    this.#pruneMediaElements();
     this.#handleUpdate();
   }
 
+  /**
+   * Forgets media elements that were removed from the page
+   * and the ones that played least recently, if there are too many.
+   */
+  #pruneMediaElements() {
+    this.trackedMediaElements = this.trackedMediaElements.filter(
+      element => element.isConnected);
+    while (this.trackedMediaElements.length > Constants.MAX_MEDIA_ELEMENTS_PER_FRAME) {
+      const index = this.trackedMediaElements.findIndex(
+        element => element !== this.currentMediaElement);
+      this.trackedMediaElements.splice(index, 1);
+    }
+    if (this.currentMediaElement !== null &&
+      !this.trackedMediaElements.includes(this.currentMediaElement)) {
+      this.currentMediaElement = this.trackedMediaElements.at(-1) ?? null;
+    }
+    this.useEstimatedTrackStartTime = this.currentMediaElement === null;
+    this.#updateProgressElementObservation();
+  }
+
+  /**
+   * Observes progress elements only while no media element qualifies,
+   * since observing mutations of the page is expensive
+   * and the position of a media element is always preferred.
+   */
+  #updateProgressElementObservation() {
+    const observe = this.observerState === MediaObserverState.Observing &&
+      this.trackedMediaElements.length === 0;
+    if (observe === this.progressElementObserving) {
+      return;
+    }
+    this.progressElementObserving = observe;
+    if (observe) {
+      this.progressElementObserver.start();
+    } else {
+      this.progressElementObserver.stop();
+      this.currentProgressElement = null;
+      this.currentProgressElementMutating = undefined;
+    }
+  }
+
+  #mediaElementKey(element: HTMLMediaElement): string {
+    let key = this.mediaElementKeys.get(element);
+    if (key === undefined) {
+      key = `media-${++this.mediaElementCounter}`;
+      this.mediaElementKeys.set(element, key);
+    }
+    return key;
+  }
+
   #onProgressElementMutated(element: ProgressElement) {
     this.currentProgressElement = element;
     this.currentProgressElementMutating = true;
@@ -642,17 +866,49 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     }
   }
 
+  #onProgressElementLost(element: ProgressElement) {
+    if (element === this.currentProgressElement) {
+      this.currentProgressElement = null;
+      this.currentProgressElementMutating = undefined;
+      this.#handleUpdate();
+    }
+  }
+
   #onPageNavigation(event: NavigateEvent) {
     // Make sure to look for resource links and for metadata attribute buttons
     // again whenever the user navigates.
     // FIXME This is not very reliable. The page might still be mutating. It's
     // probably a good idea to observe the DOM in some way for resource links.
+    // The position state belongs to the previous page.
+    this.resetPositionState();
     this.#handleUpdate();
   }
 
-  #handleUpdate() {
-    let state = this.#currentMediaState();
-    if (state === null) {
+  #handleUpdate(force: boolean = false) {
+    this.#pruneMediaElements();
+    const states: Map<string, TabMediaState> = new Map();
+    let primaryState = this.#currentMediaState();
+    const primaryKey = this.primaryKey;
+    if (primaryState !== null) {
+      switch (primaryState.determineChanges(this.previousMediaStates.get(primaryKey))) {
+        case TabMediaStateChange.StartedPlaying:
+        case TabMediaStateChange.TrackChanged:
+          this.estimatedTrackStartTime = Date.now();
+          if (primaryState.playbackState.source === PlaybackStateSource.Estimated) {
+            primaryState = new TabMediaState({
+              mediaMetadata: primaryState.mediaMetadata,
+              playbackState: this.#estimatedPlaybackPosition(primaryState.playbackState.playing),
+            });
+          }
+      }
+      states.set(primaryKey, primaryState);
+    }
+    for (const element of this.trackedMediaElements) {
+      if (element !== this.currentMediaElement) {
+        states.set(this.#mediaElementKey(element), this.#mediaElementState(element));
+      }
+    }
+    if (states.size === 0) {
       if (this.temporaryPinEndTimestamp !== null) {
         const nowTimestamp = new Date().getTime();
         if (nowTimestamp < this.temporaryPinEndTimestamp) {
@@ -662,36 +918,47 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
               this.#handleUpdate();
             }, this.temporaryPinEndTimestamp - nowTimestamp);
           }
+          if (force) {
+            // The media is still pinned, so it is reported as it was.
+            this.#notify(this.previousEvents);
+          }
           return;
         }
         this.#resetTemporaryPin();
       }
-      for (const callback of this.eventCallbacks) {
-        callback(null);
-      }
-      return;
     }
-    const stateChange = state.determineChanges(this.previousMediaState);
-    if (stateChange === TabMediaStateChange.Nothing) {
+    const changed = states.size !== this.previousMediaStates.size ||
+      [...states].some(([key, state]) => state.determineChanges(
+        this.previousMediaStates.get(key)) !== TabMediaStateChange.Nothing);
+    this.previousMediaStates = states;
+    if (!changed && !force) {
       return;
     }
-    switch (stateChange) {
-      case TabMediaStateChange.StartedPlaying:
-      case TabMediaStateChange.TrackChanged:
-        this.estimatedTrackStartTime = Date.now();
-        if (state?.playbackState.source === PlaybackStateSource.Estimated) {
-          state = new TabMediaState({
-            mediaMetadata: state.mediaMetadata,
-            playbackState: this.#estimatedPlaybackPosition(state.playbackState.playing),
-          });
-        }
+    const events: MediaStateEvent[] = [];
+    for (const [key, state] of states) {
+      events.push(this.#serialize(key, key === primaryKey, state));
+    }
+    this.previousEvents = events;
+    this.#notify(events);
+  }
+
+  #notify(events: MediaStateEvent[]) {
+    for (const callback of this.eventCallbacks) {
+      callback(events);
     }
+  }
+
+  #serialize(key: string, primary: boolean, state: TabMediaState): MediaStateEvent {
+    // Resource links and metadata buttons are found with the metadata
+    // of the media session, which only describes the primary media.
     const reverseDomain = getReverseDomain();
-    const serialized: MediaStateEvent = {
+    return {
+      key,
+      primary,
       state: state.serialize(
         getPageUrl(),
         getFaviconUrl(),
-        state.mediaMetadata
+        primary && state.mediaMetadata
           ? findBestMatchingResourceLinks(
             state.mediaMetadata,
             reverseDomain in Constants.URL_MATCHES
@@ -701,13 +968,42 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
           : new Map<ResourceType, Map<string, string>>()
       ),
       clientState: {
-        metadataButtons: state.mediaMetadata ? findMetadataButtons(state.mediaMetadata) : new Set<string>(),
+        metadataButtons: primary && state.mediaMetadata
+          ? findMetadataButtons(state.mediaMetadata)
+          : new Set<string>(),
+        playbackStateSource: state.playbackState.source,
       },
     };
-    for (const callback of this.eventCallbacks) {
-      callback(serialized);
-    }
-    this.previousMediaState = state;
+  }
+
+  /**
+   * Returns the state of media that is played by a media element,
+   * which is not the primary media, so the media session does not apply.
+   */
+  #mediaElementState(element: HTMLMediaElement): TabMediaState {
+    const title = element.title || element.getAttribute('aria-label') || document.title;
+    const poster = element instanceof HTMLVideoElement ? element.poster : "";
+    return new TabMediaState({
+      mediaMetadata: new MediaMetadata({
+        title,
+        artwork: poster.length > 0 ? [{ src: poster }] : [],
+      }),
+      playbackState: this.#mediaElementPlaybackState(element, !element.paused),
+    });
+  }
+
+  #mediaElementPlaybackState(element: HTMLMediaElement, isPlaying: boolean): TabMediaPlaybackState {
+    // Live streams have no meaningful duration, only a seekable range.
+    const live = isLiveMediaElement(element);
+    return new TabMediaPlaybackState(
+      PlaybackStateSource.MediaElement,
+      Math.floor(element.currentTime * 1000),
+      live || isNaN(element.duration) ? null : Math.floor(element.duration * 1000),
+      isPlaying,
+      Date.now(),
+      live,
+      live ? seekableRange(element) : null
+    );
   }
 
   #currentMediaState(): TabMediaState | null {
@@ -720,29 +1016,38 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     // to determine whether the playback position is advancing or not.
     // Only when it's been determined to advance, then it's playing.
 
-    // Do not report as playing when the progress element is not mutating.
+    // Do not report as playing when the progress element is not mutating,
+    // unless the media element is playing, which is more reliable.
     if (isPlaying && navigator.mediaSession.playbackState !== "playing" &&
+      this.currentMediaElement === null &&
       this.currentProgressElement !== null && !this.currentProgressElementMutating) {
       isPlaying = false;
     }
 
     let playbackState: TabMediaPlaybackState | null = null;
-
-    // FIXME: Handle the case when the media element reports an inaccurate
-    // playback position and duration, which is the case on e.g. Deezer.
-    // We have to prioritize the media element here because on e.g. YouTube
-    // the progress element is not updated when it is not visible,
-    // which is the case most of the time.
-    if (this.currentMediaElement &&
+    const positionState = this.#positionStatePlaybackState(isPlaying);
+
+    // The media element reports an inaccurate playback position and duration
+    // on e.g. Deezer, in which case the page's position state is preferred,
+    // as long as it was reported for what the media element plays.
+    // Otherwise the media element is more precise, since it is updated
+    // continuously. We have to prioritize the media element over
+    // the progress element because on e.g. YouTube the progress element
+    // is not updated when it is not visible, which is the case most of the time.
+    const mediaElementUsable = this.currentMediaElement !== null &&
       !isNaN(this.currentMediaElement.currentTime) &&
-      !isNaN(this.currentMediaElement.duration)) {
-      playbackState = new TabMediaPlaybackState(
-        PlaybackStateSource.MediaElement,
-        Math.floor(this.currentMediaElement.currentTime * 1000),
-        Math.floor(this.currentMediaElement.duration * 1000),
-        isPlaying,
-        Date.now()
-      );
+      !isNaN(this.currentMediaElement.duration);
+    // For live streams only the media element knows the seekable range.
+    const mediaElementLive = mediaElementUsable &&
+      isLiveMediaElement(this.currentMediaElement!);
+    if (positionState !== null && (!mediaElementUsable ||
+      this.#positionStateMatchesMediaElement(positionState) && (positionState.live
+      ? !mediaElementLive
+      : mediaElementLive || Math.abs(this.currentMediaElement!.duration * 1000 -
+        positionState.duration!) > Constants.POSITION_STATE_DURATION_TOLERANCE))) {
+      playbackState = positionState;
+    } else if (this.currentMediaElement && mediaElementUsable) {
+      playbackState = this.#mediaElementPlaybackState(this.currentMediaElement, isPlaying);
     } else if (this.currentProgressElement !== null
       && this.currentProgressElement.value !== null
       && this.currentProgressElement.max !== null
@@ -773,6 +1078,23 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     //   playbackState = this.#estimatedPlaybackPosition(isPlaying);
     //   console.log("C", playbackState);
     // }
+    // Audio from the Web Audio API has no position or duration,
+    // e.g. in games, so the position is estimated from when it started.
+    else if (this.webAudioActive) {
+      playbackState = this.#estimatedPlaybackPosition(this.webAudioPlaying &&
+        navigator.mediaSession.playbackState !== "paused");
+    }
+    // The media session metadata can contain information
+    // before any media is playing on the site, e.g. the loaded track.
+    else if (navigator.mediaSession.metadata !== null &&
+      navigator.mediaSession.metadata.title.length > 0) {
+      playbackState = new TabMediaPlaybackState(
+        PlaybackStateSource.MediaSessionMetadata,
+        0, null,
+        navigator.mediaSession.playbackState === "playing",
+        Date.now()
+      );
+    }
     else {
       return null;
     }
@@ -784,6 +1106,60 @@ export class MediaObserver implements IObserver<MediaStateEventCallback> {
     });
   }
 
+  #positionStatePlaybackState(isPlaying: boolean): TabMediaPlaybackState | null {
+    if (this.currentMediaElement !== null && this.positionStateSrc !== null &&
+      this.currentMediaElement.currentSrc !== this.positionStateSrc) {
+      // The media element plays something else now.
+      this.resetPositionState();
+    }
+    const state = this.positionState;
+    if (state === null || this.positionStateTimestamp === null ||
+      state.duration === undefined || isNaN(state.duration) ||
+      state.position === undefined) {
+      return null;
+    }
+    // The page reports an infinite duration for live streams.
+    const live = state.duration === Infinity;
+    // The position state is not updated while playing,
+    // so the position has to be advanced since it was reported.
+    const now = Date.now();
+    const duration = state.duration * 1000;
+    let position = state.position * 1000;
+    if (isPlaying) {
+      position += (now - this.positionStateTimestamp) * (state.playbackRate ?? 1);
+    }
+    if (!live && position > duration + Constants.POSITION_STATE_DURATION_TOLERANCE) {
+      // The page did not report the position of the track that followed.
+      return null;
+    }
+    return new TabMediaPlaybackState(
+      PlaybackStateSource.MediaSessionPositionState,
+      Math.floor(Math.min(Math.max(0, position), duration)),
+      live ? null : Math.floor(duration),
+      isPlaying,
+      now,
+      live
+    );
+  }
+
+  /**
+   * Whether the position state was reported while the current media element
+   * played the same source, and the element has not played past its end.
+   */
+  #positionStateMatchesMediaElement(positionState: TabMediaPlaybackState): boolean {
+    const element = this.currentMediaElement;
+    if (element === null) {
+      return false;
+    }
+    if (this.positionStateSrc === null) {
+      // The page reported it before the media element started playing.
+      this.positionStateSrc = element.currentSrc;
+    }
+    return element.currentSrc === this.positionStateSrc && (positionState.live ||
+      element.currentTime * 1000 <= positionState.duration! +
+      Constants.POSITION_STATE_DURATION_TOLERANCE);
+  }
+
   #estimatedPlaybackPosition(isPlaying: boolean): TabMediaPlaybackState {
     if (this.estimatedTrackStartTime === null) {
       this.estimatedTrackStartTime = Date.now();
@@ -0,0 +1,36 @@
+/**
+ * A descriptor for where the current playback state has been obtained from,
+ * since there can be multiple different sources,
+ * depending on how the web player is implemented for a specific service.
+ */
+export enum PlaybackStateSource {
+  /**
+   * The playback state is read from a media element like <audio> or <video>.
+   */
+  MediaElement,
+  /**
+   * The playback state is read from a progress element,
+   * with values using the unit milliseconds.
+   */
+  ProgressElementMilliseconds,
+  /**
+   * The playback state is read from a progress element,
+   * with values using the unit seconds.
+   */
+  ProgressElementSeconds,
+  /**
+   * The playback state is estimated on a best-effort basis
+   * because there is no reliable source available for this information.
+   */
+  Estimated,
+  /**
+   * The playback state is reported by the page itself
+   * with navigator.mediaSession.setPositionState().
+   */
+  MediaSessionPositionState,
+  /**
+   * There is no playback state, only the page's media session metadata,
+   * e.g. because a track was loaded but has not been played yet.
+   */
+  MediaSessionMetadata,
+}
@@ -3,51 +3,63 @@ import { BrowserMedia } from "../proto";
 import { ReverseDomain } from "../util/reverse-domain";
 import { Constants } from "./constants";
 import { PlaybackState } from "./playback-state";
+import { PlaybackStateSource } from "./playback-state-source";
 import { ResourceType } from "./resource-links";
 
 /**
- * A descriptor for where the current playback state has been obtained from,
- * since there can be multiple different sources,
- * depending on how the web player is implemented for a specific service.
+ * A range of playback positions in milliseconds.
  */
-export enum PlaybackStateSource {
-  /**
-   * The playback state is read from a media element like <audio> or <video>.
-   */
-  MediaElement,
-  /**
-   * The playback state is read from a progress element,
-   * with values using the unit milliseconds.
-   */
-  ProgressElementMilliseconds,
-  /**
-   * The playback state is read from a progress element,
-   * with values using the unit seconds.
-   */
-  ProgressElementSeconds,
-  /**
-   * The playback state is estimated on a best-effort basis
-   * because there is no reliable source available for this information.
-   */
-  Estimated
+export interface TimeRange {
+  start: number
+  end: number
 }
 
 export class TabMediaPlaybackState extends PlaybackState {
 
   private _source: PlaybackStateSource
+  private _live: boolean
+  private _seekableRange: TimeRange | null
 
   constructor(
     source: PlaybackStateSource,
     position: number,
     duration: number | null,
     playing: boolean,
-    positionTimestamp = Date.now()
+    positionTimestamp = Date.now(),
+    live = false,
+    seekableRange: TimeRange | null = null
   ) {
     super(position, duration, playing, positionTimestamp);
     this._source = source;
+    this._live = live;
+    this._seekableRange = seekableRange;
   }
 
   get source(): PlaybackStateSource { return this._source; }
+  /** Whether the media is a live stream, which has no duration. */
+  get live(): boolean { return this._live; }
+  /** The range within which a live stream can be seeked, if known. */
+  get seekableRange(): TimeRange | null { return this._seekableRange; }
+
+  /**
+   * Checks whether both are live streams with the same seekable range,
+   * or neither is a live stream.
+   *
+   * @param other The other playback state.
+   * @returns Whether the live state is considered equal.
+   */
+  liveEquals(other: TabMediaPlaybackState): boolean {
+    if (this._live !== other._live) {
+      return false;
+    }
+    const a = this._seekableRange;
+    const b = other._seekableRange;
+    if (a === null || b === null) {
+      return a === b;
+    }
+    return Math.abs(a.start - b.start) < Constants.SEEKABLE_RANGE_EPSILON
+      && Math.abs(a.end - b.end) < Constants.SEEKABLE_RANGE_EPSILON;
+  }
 }
 
 export enum TabMediaStateChange {
@@ -107,10 +119,11 @@ export class TabMediaState implements ITabMediaState {
     })) {
       return TabMediaStateChange.TrackChanged;
     }
+    // The smaller epsilon applies, when the source of the playback state changed.
     if (!previousState.playbackState.equals(this.playbackState, Math.min(
       Constants.EPSILONS_FOR_PLAYBACK_STATE_SOURCE[this.playbackState.source],
       Constants.EPSILONS_FOR_PLAYBACK_STATE_SOURCE[previousState.playbackState.source]
-    ))) {
+    )) || !previousState.playbackState.liveEquals(this.playbackState)) {
       return TabMediaStateChange.PlaybackStateChanged;
     }
     return TabMediaStateChange.Nothing;
@@ -141,7 +154,12 @@ export class TabMediaState implements ITabMediaState {
       playbackState: {
         position: this.playbackState.position / 1000,
         positionTimestamp: new Date(this.playbackState.positionTimestamp),
-        playing: this.playbackState.playing
+        playing: this.playbackState.playing,
+        live: this.playbackState.live,
+        seekableRange: this.playbackState.seekableRange ? {
+          start: this.playbackState.seekableRange.start / 1000,
+          end: this.playbackState.seekableRange.end / 1000,
+        } : undefined
       },
       resourceLinks: {
         trackUrl: resourceLinks.has(ResourceType.Track)
@@ -156,15 +174,24 @@ export class TabMediaState implements ITabMediaState {
       },
       images: this.mediaMetadata?.artwork.map((a): BrowserMedia.MediaState_Image => {
         const sizes = a.sizes?.split('x');
-        // TODO extract raw data from src if it's a data URL? or simply ignore
-        // this case and handle it somewhere else when the need arises?
+        // Artwork from data: and blob: URLs is embedded by the content script,
+        // since resolving it is asynchronous.
         return {
           url: a.src,
           mimeType: a.type ?? undefined,
           width: (sizes && sizes?.length >= 1 ? parseInt(sizes[0]) : undefined) || undefined,
           height: (sizes && sizes?.length >= 2 ? parseInt(sizes[1]) : undefined) || undefined
         };
-      }) ?? []
+      }) ?? [],
+      // The ID is assigned by the background script,
+      // since it has to be unique across all tabs and frames.
+      id: "",
+      // The capabilities depend on the controls of the page
+      // and are determined by the content script.
+      capabilities: undefined,
+      // The volume is that of the media element, which is controlled
+      // by the content script.
+      volume: undefined
     };
   }
 }
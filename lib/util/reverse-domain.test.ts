@@ -0,0 +1,40 @@
+import { describe, expect, test } from "vitest";
+import { ReverseDomain } from "./reverse-domain";
+
+describe("ReverseDomain.forDomain", () => {
+
+  test("reverses the parts of the domain", () => {
+    expect(ReverseDomain.forDomain("music.youtube.com")).toBe("com.youtube.music");
+  });
+
+  test("omits www by default", () => {
+    expect(ReverseDomain.forDomain("www.example.com")).toBe("com.example");
+    expect(ReverseDomain.forDomain("www.example.com", { www: true })).toBe("com.example.www");
+  });
+});
+
+describe("ReverseDomain.matches", () => {
+
+  test("matches the same reverse domain", () => {
+    expect(ReverseDomain.matches("com.youtube", "com.youtube")).toBe(true);
+    expect(ReverseDomain.matches("com.youtube", "com.youtube", true)).toBe(true);
+  });
+
+  test("matches subdomains only when they are included", () => {
+    expect(ReverseDomain.matches("com.youtube.music", "com.youtube")).toBe(false);
+    expect(ReverseDomain.matches("com.youtube.music", "com.youtube", true)).toBe(true);
+    expect(ReverseDomain.matches("com.youtube.music.www", "com.youtube", true)).toBe(true);
+  });
+
+  test("does not match domains that only share a prefix", () => {
+    expect(ReverseDomain.matches("com.youtubekids", "com.youtube", true)).toBe(false);
+  });
+
+  test("does not match parent domains", () => {
+    expect(ReverseDomain.matches("com.youtube", "com.youtube.music", true)).toBe(false);
+  });
+
+  test("does not match everything with an empty reverse domain", () => {
+    expect(ReverseDomain.matches("com.youtube", "", true)).toBe(false);
+  });
+});
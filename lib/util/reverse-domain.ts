@@ -46,6 +46,27 @@ export namespace ReverseDomain {
     return forDomain(url.hostname, options);
   }
 
+  /**
+   * Checks whether a reverse domain matches another reverse domain.
+   *
+   * @param reverseDomain The reverse domain to check.
+   * @param other The reverse domain to match against.
+   * @param includeSubdomains Whether subdomains of the other reverse domain
+   * match as well, e.g. "com.youtube.music" for "com.youtube".
+   * @returns Whether the reverse domain matches.
+   */
+  export function matches(
+    reverseDomain: string,
+    other: string,
+    includeSubdomains: boolean = false
+  ): boolean {
+    if (reverseDomain === other) {
+      return true;
+    }
+    return includeSubdomains && other.length > 0
+      && reverseDomain.startsWith(other + '.');
+  }
+
   export function forTab(
     tab: Browser.tabs.Tab,
     options = defaultOptions
@@ -1,5 +1,153 @@
 import { storage } from '#imports';
+import { BadgeMode } from '../badge';
+import { BridgeMessageFormat } from '../bridge/transport';
+import { CommandTargetPolicy } from '../commands';
+import { MediaControlCapabilities } from '../messages';
+import { QueuedScrobbleEvent, ScrobbleEvent } from '../scrobble/event';
+import { PlaybackStateSource } from '../tab-media/playback-state-source';
 
 export const devBannerHidden = storage.defineItem<boolean>('local:devBannerHidden', {
   defaultValue: false,
 });
+
+export const badgeMode = storage.defineItem<BadgeMode>('local:badgeMode', {
+  defaultValue: BadgeMode.MediaCount,
+});
+
+export const commandTargetPolicy = storage.defineItem<CommandTargetPolicy>('local:commandTargetPolicy', {
+  defaultValue: CommandTargetPolicy.LastPlaying,
+});
+
+// Pauses all other media when media starts playing.
+export const exclusivePlaybackEnabled = storage.defineItem<boolean>('local:exclusivePlaybackEnabled', {
+  defaultValue: false,
+});
+
+// Domains whose media keeps playing when other media starts playing.
+export const exclusivePlaybackAllowlist = storage.defineItem<string[]>('local:exclusivePlaybackAllowlist', {
+  defaultValue: [],
+});
+
+// Resumes paused media once the media that caused the pause stops.
+export const exclusivePlaybackResume = storage.defineItem<boolean>('local:exclusivePlaybackResume', {
+  defaultValue: false,
+});
+
+// The port of a local WebSocket server that media updates are streamed to,
+// as an alternative to native messaging. Disabled when null.
+export const webSocketBridgePort = storage.defineItem<number | null>('local:webSocketBridgePort', {
+  defaultValue: null,
+});
+
+export const webSocketBridgeFormat = storage.defineItem<BridgeMessageFormat>('local:webSocketBridgeFormat', {
+  defaultValue: BridgeMessageFormat.Binary,
+});
+
+// Artwork that is embedded into media updates, because its URL only exists
+// within the page, is downscaled to fit this size. Disabled when null.
+export const artworkMaxDimension = storage.defineItem<number | null>('local:artworkMaxDimension', {
+  defaultValue: 512,
+});
+
+// Whether any connected application enabled embedded artwork, so that
+// content scripts only resolve artwork when it is used. Not a setting,
+// it is reset by the background script when it starts.
+export const artworkEmbeddingRequested = storage.defineItem<boolean>('local:artworkEmbeddingRequested', {
+  defaultValue: false,
+});
+
+// Whether scrobble events are written to the local scrobble log.
+export const scrobbleLogEnabled = storage.defineItem<boolean>('local:scrobbleLogEnabled', {
+  defaultValue: false,
+});
+
+export const scrobbleLog = storage.defineItem<ScrobbleEvent[]>('local:scrobbleLog', {
+  defaultValue: [],
+});
+
+// An HTTP endpoint that scrobble events are posted to. Disabled when null.
+export const scrobbleHttpEndpoint = storage.defineItem<string | null>('local:scrobbleHttpEndpoint', {
+  defaultValue: null,
+});
+
+// Scrobbles that could not be delivered yet.
+export const scrobbleQueue = storage.defineItem<QueuedScrobbleEvent[]>('local:scrobbleQueue', {
+  defaultValue: [],
+});
+
+// The media of each frame, mirrored from the background script,
+// so that it survives when the background script is suspended.
+export interface PersistedTabFrame {
+  tabId: number
+  frameId: number
+  // The first media of a frame is its primary media.
+  mediaKey: string
+  reverseDomain: string
+  mediaId: string
+  stateJson: object | null
+  controls: MediaControlCapabilities
+  metadataButtons: string[]
+  playbackStateSource: PlaybackStateSource
+}
+
+export const persistedTabFrames = storage.defineItem<PersistedTabFrame[]>('session:tabFrames', {
+  defaultValue: [],
+});
+
+export const persistedPinnedMediaId = storage.defineItem<string | null>('session:pinnedMediaId', {
+  defaultValue: null,
+});
+
+// The tracks that are being scrobbled, so that a track is neither announced
+// nor scrobbled twice, when the background script is suspended in between.
+export interface PersistedScrobbleTrack {
+  mediaId: string
+  event: ScrobbleEvent
+  playedTime: number
+  playingSince: number | null
+  nowPlayingSent: boolean
+  scrobbled: boolean
+}
+
+export const persistedScrobbleTracks = storage.defineItem<PersistedScrobbleTrack[]>('session:scrobbleTracks', {
+  defaultValue: [],
+});
+
+// The state of exclusive playback, so that media paused for other media
+// is still resumed, when the background script is suspended in between.
+export interface PersistedExclusivePlayback {
+  // The reverse domain of all playing media, keyed by media ID.
+  playing: Record<string, string>
+  // The media that was paused, keyed by the ID of the media that started playing.
+  pausedMedia: Record<string, string[]>
+  // Media that was paused and has not stopped yet.
+  pausing: string[]
+}
+
+export const persistedExclusivePlayback = storage.defineItem<PersistedExclusivePlayback>('session:exclusivePlayback', {
+  defaultValue: { playing: {}, pausedMedia: {}, pausing: [] },
+});
+
+// The recently played tracks, where each record is stored once
+// and the histories refer to records by their index.
+export interface PersistedMediaHistory {
+  records: {
+    entryJson: object
+    playingSince: number | null
+  }[]
+  global: number[]
+  tabs: {
+    tabId: number
+    records: number[]
+  }[]
+  // The record of the current track of each media, keyed by media ID.
+  current: Record<string, number>
+}
+
+export const persistedMediaHistory = storage.defineItem<PersistedMediaHistory>('session:mediaHistory', {
+  defaultValue: { records: [], global: [], tabs: [], current: {} },
+});
+
+export const persistedPopoutWindowId = storage.defineItem<number | null>('session:popoutWindowId', {
+  defaultValue: null,
+});
@@ -14,3 +14,18 @@ protoc ^
     --ts_proto_out=./lib/proto/gen ^
     ./proto/browser-media.proto ^
     -I=./proto
+
+rem The binary codec is only used by the background script,
+rem since protobufjs would bloat the content scripts.
+if exist .\lib\proto\gen-codec rmdir /s /q .\lib\proto\gen-codec
+mkdir .\lib\proto\gen-codec
+protoc ^
+    --plugin=protoc-gen-ts_proto=".\node_modules\.bin\protoc-gen-ts_proto.cmd" ^
+    --ts_proto_opt=esModuleInterop=true ^
+    --ts_proto_opt=outputJsonMethods=true ^
+    --ts_proto_opt=useJsonWireFormat=true ^
+    --ts_proto_opt=useNumericEnumForJson=false ^
+    --ts_proto_opt=removeEnumPrefix=true ^
+    --ts_proto_out=./lib/proto/gen-codec ^
+    ./proto/browser-media.proto ^
+    -I=./proto
@@ -13,6 +13,7 @@ export default defineConfig({
       'tabs',
       'storage',
       'webNavigation',
+      'nativeMessaging',
     ],
     icons: {
       16: '/icon/icon-16.png',
@@ -23,6 +24,32 @@ export default defineConfig({
       128: '/icon/icon-128.png',
       256: '/icon/icon-256.png',
     },
+    // Controls the media that is chosen by the command target policy.
+    // Browsers allow at most four suggested shortcuts.
+    commands: {
+      'toggle-play-pause': {
+        suggested_key: { default: 'Alt+Shift+P' },
+        description: "Play or pause media",
+      },
+      'next-track': {
+        suggested_key: { default: 'Alt+Shift+Period' },
+        description: "Skip to the next track",
+      },
+      'previous-track': {
+        suggested_key: { default: 'Alt+Shift+Comma' },
+        description: "Rewind or go to the previous track",
+      },
+      'seek-forward': {
+        description: "Seek forward by 10 seconds",
+      },
+      'seek-backward': {
+        description: "Seek backward by 10 seconds",
+      },
+      'focus-tab': {
+        suggested_key: { default: 'Alt+Shift+M' },
+        description: "Show the tab that is playing media",
+      },
+    },
     web_accessible_resources: [
       {
         resources: ['inject.js'],